@@ -0,0 +1,169 @@
+import {Schema, NodeType, MarkType} from "./schema"
+import {ContentMatch} from "./content"
+import {ValidationIssue} from "./validate"
+
+/// A difference between two schemas, as found by
+/// [`Schema.compare`](#model.Schema.compare).
+export interface SchemaChange {
+  /// Whether this change may cause documents that are valid in the
+  /// old schema to fail to load, fail validation, or lose data in the
+  /// new schema.
+  breaking: boolean
+  /// Whether the change applies to a node type, a mark type, or the
+  /// schema as a whole.
+  target: "node" | "mark" | "schema"
+  /// The name of the node or mark type, or of the top node for
+  /// schema changes.
+  name: string
+  /// The kind of change. `"added"` and `"removed"` refer to the type
+  /// itself, `"content"` to the set of content sequences allowed by
+  /// the type's content expression, `"marks"` to the marks allowed
+  /// inside it, `"attrs"` to its attributes, `"excludes"` to the marks
+  /// a mark type can't coexist with, and `"topNode"` to the schema's
+  /// top node type.
+  kind: "added" | "removed" | "content" | "marks" | "attrs" | "excludes" | "topNode"
+  /// A description of the change.
+  message: string
+}
+
+/// A document that doesn't load or isn't valid in a schema, as
+/// reported by [`Schema.checkDocuments`](#model.Schema.checkDocuments).
+export interface DocumentProblem {
+  /// The index of the document in the array that was checked.
+  index: number
+  /// The message of the error raised when deserializing the
+  /// document, or null if it could be deserialized.
+  error: string | null
+  /// The [validation issues](#model.Node.validate) found in the
+  /// deserialized document.
+  issues: ValidationIssue[]
+}
+
+// Test whether every content sequence accepted by `a` is also
+// accepted by `b`, by exploring the product of both automata.
+function contentIncluded(a: ContentMatch, b: ContentMatch, bTypes: {readonly [name: string]: NodeType}) {
+  let seen: ContentMatch[][] = [], work: [ContentMatch, ContentMatch][] = [[a, b]]
+  while (work.length) {
+    let [matchA, matchB] = work.pop()!
+    if (seen.some(([sa, sb]) => sa == matchA && sb == matchB)) continue
+    seen.push([matchA, matchB])
+    if (matchA.validEnd && !matchB.validEnd) return false
+    for (let i = 0; i < matchA.edgeCount; i++) {
+      let {type, next} = matchA.edge(i), other = bTypes[type.name]
+      let nextB = other && matchB.matchType(other)
+      if (!nextB) return false
+      work.push([next, nextB])
+    }
+  }
+  return true
+}
+
+// Test whether every value accepted by the validation `a`, given as
+// a string of type names, an array of values, or undefined, is also
+// accepted by `b`.
+function validationIncluded(a: string | readonly any[] | undefined, b: string | readonly any[] | undefined) {
+  if (b == null) return true
+  if (a == null) return false
+  if (typeof b == "string") {
+    let types = b.split("|")
+    return typeof a == "string" ? a.split("|").every(type => types.indexOf(type) > -1)
+      : a.every(value => types.indexOf(value === null ? "null" : typeof value) > -1)
+  }
+  return typeof a != "string" && a.every(value => b.indexOf(value) > -1)
+}
+
+function compareAttrs(oldType: NodeType | MarkType, newType: NodeType | MarkType,
+                      report: (breaking: boolean, kind: SchemaChange["kind"], message: string) => void) {
+  let oldAttrs = oldType.spec.attrs || {}, newAttrs = newType.spec.attrs || {}
+  for (let name in oldAttrs) {
+    if (!(name in newAttrs)) {
+      report(true, "attrs", `Attribute ${name} was removed`)
+      continue
+    }
+    let oldSpec = oldAttrs[name], newSpec = newAttrs[name]
+    let oldDefault = Object.prototype.hasOwnProperty.call(oldSpec, "default")
+    let newDefault = Object.prototype.hasOwnProperty.call(newSpec, "default")
+    // Validation functions can't be meaningfully compared (and are
+    // lost when a schema goes through JSON), so only type name
+    // strings and value lists are compared.
+    let oldValidate = oldSpec.validate, newValidate = newSpec.validate
+    if (typeof oldValidate != "function" && typeof newValidate != "function" &&
+        JSON.stringify(oldValidate || "") != JSON.stringify(newValidate || ""))
+      report(!validationIncluded(oldValidate, newValidate), "attrs", `Validation of attribute ${name} changed`)
+    if (oldDefault && !newDefault)
+      report(false, "attrs", `Attribute ${name} became required`)
+    else if (newDefault && (!oldDefault || JSON.stringify(oldSpec.default) != JSON.stringify(newSpec.default)))
+      report(false, "attrs", `Default value of attribute ${name} changed`)
+  }
+  for (let name in newAttrs) if (!(name in oldAttrs)) {
+    let required = !Object.prototype.hasOwnProperty.call(newAttrs[name], "default")
+    report(required, "attrs", `${required ? "Required attribute" : "Attribute"} ${name} was added`)
+  }
+}
+
+function markNames(types: readonly MarkType[]) {
+  return types.map(t => t.name)
+}
+
+export function compareSchemas(oldSchema: Schema, newSchema: Schema): SchemaChange[] {
+  let changes: SchemaChange[] = []
+  let add = (target: SchemaChange["target"], name: string, breaking: boolean, kind: SchemaChange["kind"], message: string) =>
+    changes.push({breaking, target, name, kind, message})
+
+  if (oldSchema.topNodeType.name != newSchema.topNodeType.name)
+    add("schema", newSchema.topNodeType.name, true, "topNode",
+        `Top node changed from ${oldSchema.topNodeType.name} to ${newSchema.topNodeType.name}`)
+
+  for (let name in oldSchema.nodes) {
+    let oldType = oldSchema.nodes[name], newType = newSchema.nodes[name]
+    let report = (breaking: boolean, kind: SchemaChange["kind"], message: string) => add("node", name, breaking, kind, message)
+    if (!newType) { report(true, "removed", `Node type ${name} was removed`); continue }
+    let narrowed = !contentIncluded(oldType.contentMatch, newType.contentMatch, newSchema.nodes)
+    let widened = !contentIncluded(newType.contentMatch, oldType.contentMatch, oldSchema.nodes)
+    if (narrowed || widened)
+      report(narrowed, "content", `Allowed content ${narrowed && widened ? "changed" : narrowed ? "narrowed" : "widened"} ` +
+             `from "${oldType.spec.content || ""}" to "${newType.spec.content || ""}"`)
+    let oldMarks = oldType.markSet ? markNames(oldType.markSet) : null
+    let newMarks = newType.markSet ? markNames(newType.markSet) : null
+    if (oldType.inlineContent || newType.inlineContent) {
+      let lost = newMarks ? (oldMarks || Object.keys(oldSchema.marks)).filter(m => newMarks!.indexOf(m) < 0) : []
+      let gained = oldMarks ? (newMarks || Object.keys(newSchema.marks)).filter(m => oldMarks!.indexOf(m) < 0) : []
+      if (lost.length) report(true, "marks", `Marks no longer allowed: ${lost.join(", ")}`)
+      if (gained.length) report(false, "marks", `Marks newly allowed: ${gained.join(", ")}`)
+    }
+    compareAttrs(oldType, newType, report)
+  }
+  for (let name in newSchema.nodes) if (!oldSchema.nodes[name])
+    add("node", name, false, "added", `Node type ${name} was added`)
+
+  for (let name in oldSchema.marks) {
+    let oldType = oldSchema.marks[name], newType = newSchema.marks[name]
+    let report = (breaking: boolean, kind: SchemaChange["kind"], message: string) => add("mark", name, breaking, kind, message)
+    if (!newType) { report(true, "removed", `Mark type ${name} was removed`); continue }
+    let oldExcl = markNames(oldType.excluded), newExcl = markNames(newType.excluded)
+    let added = newExcl.filter(m => oldExcl.indexOf(m) < 0), removed = oldExcl.filter(m => newExcl.indexOf(m) < 0)
+    if (added.length) report(true, "excludes", `Now excludes ${added.join(", ")}`)
+    if (removed.length) report(false, "excludes", `No longer excludes ${removed.join(", ")}`)
+    compareAttrs(oldType, newType, report)
+  }
+  for (let name in newSchema.marks) if (!oldSchema.marks[name])
+    add("mark", name, false, "added", `Mark type ${name} was added`)
+
+  return changes
+}
+
+export function checkDocuments(schema: Schema, docs: readonly any[]): DocumentProblem[] {
+  let problems: DocumentProblem[] = []
+  docs.forEach((json, index) => {
+    let doc
+    try {
+      doc = schema.nodeFromJSON(json)
+    } catch (e) {
+      problems.push({index, error: (e as Error).message, issues: []})
+      return
+    }
+    let issues = doc.validate()
+    if (issues.length) problems.push({index, error: null, issues})
+  })
+  return problems
+}
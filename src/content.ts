@@ -145,6 +145,12 @@ export class ContentMatch {
     return this.next[n]
   }
 
+  /// The node types that can appear next at this match position.
+  /// @internal
+  get nextTypes(): readonly NodeType[] {
+    return this.next.map(edge => edge.type)
+  }
+
   /// @internal
   toString() {
     let seen: ContentMatch[] = []
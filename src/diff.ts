@@ -1,4 +1,8 @@
 import {Fragment} from "./fragment"
+import {Node} from "./node"
+import {Mark} from "./mark"
+import {Attrs} from "./schema"
+import {compareDeep} from "./comparedeep"
 
 export function findDiffStart(a: Fragment, b: Fragment, pos: number): number | null {
   for (let i = 0;; i++) {
@@ -50,3 +54,182 @@ export function findDiffEnd(a: Fragment, b: Fragment, posA: number, posB: number
     posA -= size; posB -= size
   }
 }
+
+/// Describes a single difference found by
+/// [`Fragment.diff`](#model.Fragment.diff). Each change covers a range
+/// in the old content (`fromA` to `toA`) and a corresponding range in
+/// the new content (`fromB` to `toB`).
+export interface TreeChange {
+  /// The kind of change. `"insert"` changes have an empty range in
+  /// the old content, and `"delete"` changes an empty range in the
+  /// new content. `"attrs"` changes cover a single node (of the same
+  /// type) in both documents whose attributes differ, and `"marks"`
+  /// changes cover content whose marks differ.
+  kind: "insert" | "delete" | "attrs" | "marks"
+  /// The start of the change in the old content.
+  fromA: number
+  /// The end of the change in the old content.
+  toA: number
+  /// The start of the change in the new content.
+  fromB: number
+  /// The end of the change in the new content.
+  toB: number
+  /// For `"attrs"` changes, the old attributes.
+  attrsA?: Attrs
+  /// For `"attrs"` changes, the new attributes.
+  attrsB?: Attrs
+  /// For `"marks"` changes, the old set of marks.
+  marksA?: readonly Mark[]
+  /// For `"marks"` changes, the new set of marks.
+  marksB?: readonly Mark[]
+}
+
+// Content is diffed as a sequence of tokens, where each character of
+// text and each non-text node is a token.
+export class Tokens {
+  nodes: Node[] = []
+  starts: number[] = []
+  chars: string
+  size: number
+
+  constructor(fragment: Fragment) {
+    let chars: string[] = []
+    this.size = fragment.size
+    fragment.forEach((node, offset) => {
+      if (node.isText) {
+        for (let i = 0; i < node.text!.length; i++) { this.nodes.push(node); this.starts.push(offset + i) }
+        chars.push(node.text!)
+      } else {
+        this.nodes.push(node)
+        this.starts.push(offset)
+        chars.push("\ufffc")
+      }
+    })
+    this.chars = chars.join("")
+  }
+
+  get length() { return this.nodes.length }
+
+  // The position at the start of the token at index `i`, or the end
+  // of the content when `i` is the token count.
+  pos(i: number) { return i < this.nodes.length ? this.starts[i] : this.size }
+}
+
+// Don't spend more than this many edit steps looking for a minimal
+// diff, but treat the remaining content as replaced.
+const MAX_DIFF_COST = 2000
+
+// Find a longest common subsequence of two sequences (with Myers'
+// algorithm) and return it as a flat array of index pairs.
+export function commonSubsequence(startA: number, endA: number, startB: number, endB: number,
+                           eq: (a: number, b: number) => boolean): number[] {
+  let prefix: number[] = [], suffix: number[] = []
+  while (startA < endA && startB < endB && eq(startA, startB)) prefix.push(startA++, startB++)
+  while (endA > startA && endB > startB && eq(endA - 1, endB - 1)) suffix.unshift(--endA, --endB)
+  let n = endA - startA, m = endB - startB, max = Math.min(n + m, MAX_DIFF_COST)
+  if (!n || !m) return prefix.concat(suffix)
+  let v = new Int32Array(2 * max + 3), off = max + 1, trace: Int32Array[] = []
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(off - d - 1, off + d + 2))
+    for (let k = -d; k <= d; k += 2) {
+      let x = k == -d || (k != d && v[off + k - 1] < v[off + k + 1]) ? v[off + k + 1] : v[off + k - 1] + 1
+      let y = x - k
+      while (x < n && y < m && eq(startA + x, startB + y)) { x++; y++ }
+      v[off + k] = x
+      if (x >= n && y >= m) {
+        let middle: number[] = []
+        for (let e = d; e > 0; e--) {
+          let prev = trace[e], at = (k: number) => prev[k + e + 1], k = x - y
+          let prevK = k == -e || (k != e && at(k - 1) < at(k + 1)) ? k + 1 : k - 1
+          let prevX = at(prevK), prevY = prevX - prevK
+          while (x > prevX && y > prevY) { x--; y--; middle.unshift(startA + x, startB + y) }
+          x = prevX; y = prevY
+        }
+        while (x > 0 && y > 0) { x--; y--; middle.unshift(startA + x, startB + y) }
+        return prefix.concat(middle, suffix)
+      }
+    }
+  }
+  return prefix.concat(suffix)
+}
+
+function addChange(changes: TreeChange[], change: TreeChange) {
+  let last = changes[changes.length - 1]
+  if (last && last.kind == change.kind && change.kind != "attrs" &&
+      last.toA == change.fromA && last.toB == change.fromB &&
+      (change.kind != "marks" || Mark.sameSet(last.marksA!, change.marksA!) && Mark.sameSet(last.marksB!, change.marksB!))) {
+    last.toA = change.toA
+    last.toB = change.toB
+  } else {
+    changes.push(change)
+  }
+}
+
+function compareNodes(a: Node, b: Node, posA: number, posB: number, changes: TreeChange[]) {
+  let endA = posA + a.nodeSize, endB = posB + b.nodeSize
+  if (!compareDeep(a.attrs, b.attrs))
+    addChange(changes, {kind: "attrs", fromA: posA, toA: endA, fromB: posB, toB: endB, attrsA: a.attrs, attrsB: b.attrs})
+  if (!Mark.sameSet(a.marks, b.marks))
+    addChange(changes, {kind: "marks", fromA: posA, toA: endA, fromB: posB, toB: endB, marksA: a.marks, marksB: b.marks})
+  if (a.content != b.content) diffFragments(a.content, b.content, posA + 1, posB + 1, changes)
+}
+
+// Tokens are the same when they hold the same character with the
+// same marks, or equal nodes.
+export function sameToken(tokA: Tokens, i: number, tokB: Tokens, j: number) {
+  let nodeA = tokA.nodes[i], nodeB = tokB.nodes[j]
+  return nodeA.isText ? nodeB.isText && tokA.chars[i] == tokB.chars[j] && Mark.sameSet(nodeA.marks, nodeB.marks)
+    : nodeA == nodeB || nodeA.eq(nodeB)
+}
+
+// Tokens are similar when they hold the same character, or nodes of
+// the same type.
+export function similarToken(tokA: Tokens, i: number, tokB: Tokens, j: number) {
+  let nodeA = tokA.nodes[i], nodeB = tokB.nodes[j]
+  return nodeA.isText ? nodeB.isText && tokA.chars[i] == tokB.chars[j] : nodeA.type == nodeB.type
+}
+
+export function diffFragments(a: Fragment, b: Fragment, posA: number, posB: number, changes: TreeChange[]) {
+  let tokA = new Tokens(a), tokB = new Tokens(b)
+  // First align the tokens that are entirely unchanged.
+  let same = commonSubsequence(0, tokA.length, 0, tokB.length, (i, j) => sameToken(tokA, i, tokB, j))
+  for (let i = 0, iA = 0, iB = 0;; i += 2) {
+    let endA = i < same.length ? same[i] : tokA.length, endB = i < same.length ? same[i + 1] : tokB.length
+    if (iA < endA || iB < endB) diffGap(tokA, tokB, iA, endA, iB, endB, posA, posB, changes)
+    if (i >= same.length) break
+    iA = endA + 1; iB = endB + 1
+  }
+}
+
+// Diff a stretch of tokens that differ. Tokens with the same
+// character or node type are paired up and compared, the rest is
+// reported as deleted or inserted.
+function diffGap(tokA: Tokens, tokB: Tokens, startA: number, endA: number, startB: number, endB: number,
+                 posA: number, posB: number, changes: TreeChange[]) {
+  let pairs = commonSubsequence(startA, endA, startB, endB, (i, j) => similarToken(tokA, i, tokB, j))
+  let iA = startA, iB = startB
+  let flush = (toA: number, toB: number) => {
+    if (toA > iA) {
+      let at = posB + tokB.pos(iB)
+      addChange(changes, {kind: "delete", fromA: posA + tokA.pos(iA), toA: posA + tokA.pos(toA), fromB: at, toB: at})
+    }
+    if (toB > iB) {
+      let at = posA + tokA.pos(toA)
+      addChange(changes, {kind: "insert", fromA: at, toA: at, fromB: posB + tokB.pos(iB), toB: posB + tokB.pos(toB)})
+    }
+  }
+  for (let i = 0; i < pairs.length; i += 2) {
+    let pA = pairs[i], pB = pairs[i + 1]
+    flush(pA, pB)
+    let nodeA = tokA.nodes[pA], nodeB = tokB.nodes[pB], startA = posA + tokA.starts[pA], startB = posB + tokB.starts[pB]
+    if (nodeA.isText) {
+      if (!Mark.sameSet(nodeA.marks, nodeB.marks))
+        addChange(changes, {kind: "marks", fromA: startA, toA: startA + 1, fromB: startB, toB: startB + 1,
+                            marksA: nodeA.marks, marksB: nodeB.marks})
+    } else {
+      compareNodes(nodeA, nodeB, startA, startB, changes)
+    }
+    iA = pA + 1; iB = pB + 1
+  }
+  flush(endA, endB)
+}
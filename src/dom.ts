@@ -1 +1,15 @@
 export type DOMNode = InstanceType<typeof window.Node>
+
+// The part of the DOM node interface that the parser uses to walk a
+// tree. Implemented both by browser DOM nodes and by the `HTMLNode`
+// objects produced by the built-in HTML reader.
+export interface DOMTreeNode {
+  readonly nodeType: number
+  readonly nodeName: string
+  nodeValue: string | null
+  readonly parentNode: DOMTreeNode | null
+  readonly firstChild: DOMTreeNode | null
+  readonly previousSibling: DOMTreeNode | null
+  readonly nextSibling: DOMTreeNode | null
+  readonly childNodes: ArrayLike<DOMTreeNode>
+}
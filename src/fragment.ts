@@ -1,6 +1,7 @@
-import {findDiffStart, findDiffEnd} from "./diff"
+import {findDiffStart, findDiffEnd, diffFragments, TreeChange} from "./diff"
 import {Node, TextNode} from "./node"
 import {Schema} from "./schema"
+import {queryFragment} from "./query"
 
 /// A fragment represents a node's collection of child nodes.
 ///
@@ -49,6 +50,14 @@ export class Fragment {
     this.nodesBetween(0, this.size, f)
   }
 
+  /// Find the descendant nodes of this fragment that match a CSS-like
+  /// selector, in document order. See
+  /// [`Node.query`](#model.Node.query) for the supported syntax.
+  /// Positions are offset by `pos` (which defaults to zero).
+  query(selector: string, pos = 0): {node: Node, pos: number}[] {
+    return queryFragment(this, selector, pos, null)
+  }
+
   /// Extract the text between `from` and `to`. See the same method on
   /// [`Node`](#model.Node.textBetween).
   textBetween(from: number, to: number, blockSeparator?: string | null, leafText?: string | null | ((leafNode: Node) => string)) {
@@ -191,6 +200,20 @@ export class Fragment {
     return findDiffEnd(this, other, pos, otherPos)
   }
 
+  /// Compute a structural diff between this fragment and another one,
+  /// returning a list of changes in document order. Unchanged content
+  /// is aligned first. In the remaining content, nodes of the same
+  /// type (and identical characters in text) are paired up and
+  /// compared for attribute, mark, and content changes, and anything
+  /// that can't be paired is reported as deleted or inserted.
+  /// Positions in the changes start counting at `pos` (for this
+  /// fragment) and `otherPos` (for the other fragment).
+  diff(other: Fragment, pos = 0, otherPos = 0): TreeChange[] {
+    let changes: TreeChange[] = []
+    diffFragments(this, other, pos, otherPos, changes)
+    return changes
+  }
+
   /// Find the index and inner offset corresponding to a given relative
   /// position in this fragment. The result object will be reused
   /// (overwritten) the next time the function is called. (Not public.)
@@ -5,7 +5,9 @@ import {Node, TextNode} from "./node"
 import {ContentMatch} from "./content"
 import {ResolvedPos} from "./resolvedpos"
 import {Schema, Attrs, NodeType, MarkType} from "./schema"
-import {DOMNode} from "./dom"
+import {DOMNode, DOMTreeNode} from "./dom"
+import {readHTML} from "./html"
+import {StyleTest, parseStyleTest, testStyle} from "./style"
 
 /// These are the options recognized by the
 /// [`parse`](#model.DOMParser.parse) and
@@ -44,12 +46,269 @@ export interface ParseOptions {
   /// given [top node](#model.ParseOptions.topNode).
   context?: ResolvedPos
 
+  /// Functions that are called with the DOM node to parse before
+  /// parsing starts, in order, and may rewrite its content in place
+  /// to make it easier to parse. Since they modify the DOM you pass
+  /// to the parser, pass a copy (for example one created with
+  /// `cloneNode(true)`) if you still need the original. Note that
+  /// this happens before [`from`](#model.ParseOptions.from) and
+  /// [`to`](#model.ParseOptions.to) are applied. See
+  /// [`normalizeWordHTML`](#model.normalizeWordHTML) and
+  /// [`normalizeGoogleDocsHTML`](#model.normalizeGoogleDocsHTML) for
+  /// normalizers for content pasted from Word and Google Docs. No
+  /// normalizers are provided for other sources, such as LibreOffice
+  /// or Notion, whose clipboard HTML already uses mostly semantic
+  /// elements.
+  normalize?: readonly ((dom: DOMNode) => void)[]
+
+  /// When given, and the parser has a [sanitization
+  /// policy](#model.DOMParser.policy), violations of that
+  /// policy are appended to this array.
+  violations?: SanitizeViolation[]
+
+  /// When given, the parser records what it does with each DOM node
+  /// in this trace.
+  trace?: ParseTrace
+
+  /// When given, the parser appends a description of each piece of
+  /// content that it discards to this array.
+  losses?: ParseLoss[]
+
   /// @internal
   ruleFromNode?: (node: DOMNode) => ParseRule | null
   /// @internal
   topOpen?: boolean
 }
 
+/// An entry in a [parse trace](#model.ParseTrace), describing a
+/// decision the parser made about a DOM node.
+export interface ParseTraceEntry {
+  /// The kind of entry:
+  ///
+  ///  - `"rule"` when a [`tag`](#model.ParseRule.tag) rule matched
+  ///    the node.
+  ///  - `"style"` when a [`style`](#model.ParseRule.style) rule
+  ///    matched one of the node's inline styles.
+  ///  - `"ignore"` when the node was ignored, either by a rule or
+  ///    because it is an element (like `<script>`) that is ignored by
+  ///    default.
+  ///  - `"skip"` when the node itself was skipped, but its content
+  ///    parsed, because no rule matched or the matching rule has
+  ///    [`skip`](#model.ParseRule.skip) or
+  ///    [`closeParent`](#model.ParseRule.closeParent) set.
+  ///  - `"leafFallback"` and `"ignoreFallback"` when the parser
+  ///    fell back to its default handling of leaf elements without a
+  ///    matching rule, or of ignored elements (which only does
+  ///    something for `<br>` elements).
+  ///  - `"wrap"` when wrapper nodes were created to fit content
+  ///    into its context.
+  ///  - `"drop"` when a node couldn't be placed anywhere and was
+  ///    left out of the result.
+  type: "rule" | "style" | "ignore" | "skip" | "leafFallback" | "ignoreFallback" | "wrap" | "drop"
+
+  /// The DOM node that was being parsed.
+  dom: DOMNode
+
+  /// The rule that matched, if any.
+  rule?: ParseRule
+
+  /// The index of the rule in the parser's
+  /// [rules](#model.DOMParser.rules), or -1 if it didn't come from
+  /// there.
+  index?: number
+
+  /// The rule's [priority](#model.ParseRule.priority), with the
+  /// default of 50 filled in.
+  priority?: number
+
+  /// The attributes the rule produced.
+  attrs?: Attrs | null
+
+  /// Marks that were added by the rule.
+  addMarks?: readonly Mark[]
+
+  /// Marks that were removed by the rule.
+  removeMarks?: readonly Mark[]
+
+  /// For `"wrap"` entries, the types of the wrapper nodes that were
+  /// created, from outer to inner.
+  wrappers?: readonly NodeType[]
+
+  /// For `"wrap"` and `"drop"` entries, the node that was being
+  /// placed. For `"drop"` entries produced by non-leaf rules, this is
+  /// an empty node of the rule's type—its content is still parsed
+  /// into the surrounding context.
+  node?: Node
+}
+
+/// A policy that a [parser](#model.DOMParser) applies to untrusted
+/// content. Its limits on attribute values are checked for the
+/// attributes produced by every rule, before a node or mark is
+/// created. When the attributes violate the policy, the rule is
+/// treated as not matching, as if its
+/// [`getAttrs`](#model.ParseRule.getAttrs) function had returned
+/// false, so that for example a link with a `javascript:` URL is
+/// parsed as plain text. Nodes created by a rule's
+/// [`getContent`](#model.ParseRule.getContent) function are not
+/// checked.
+export interface SanitizePolicy {
+  /// The URL schemes that are allowed in URL attributes. Relative
+  /// URLs, which have no scheme, are always allowed. Defaults to
+  /// `["http", "https", "mailto", "tel"]`, which means that, among
+  /// others, `javascript:` and `data:` URLs are rejected.
+  allowedSchemes?: readonly string[]
+
+  /// The names of the node and mark attributes that hold URLs.
+  /// Defaults to `["href", "src"]`.
+  urlAttributes?: readonly string[]
+
+  /// The names of the node and mark attributes that hold inline CSS.
+  /// Values that contain an `expression(...)` or a `url(...)` with
+  /// a scheme that isn't in
+  /// [`allowedSchemes`](#model.SanitizePolicy.allowedSchemes) are
+  /// rejected. Defaults to `["style"]`.
+  styleAttributes?: readonly string[]
+
+  /// The maximum length of string attribute values.
+  maxAttributeLength?: number
+
+  /// The maximum depth to which DOM elements are nested. Deeper
+  /// content is dropped, and reported as a `"limit"`
+  /// [loss](#model.ParseLoss).
+  maxDepth?: number
+
+  /// The maximum number of DOM nodes parsed. Content after that is
+  /// dropped, and reported as a `"limit"` [loss](#model.ParseLoss).
+  maxNodes?: number
+}
+
+/// A violation of a [sanitization policy](#model.SanitizePolicy),
+/// as reported through the
+/// [`violations`](#model.ParseOptions.violations) option.
+export interface SanitizeViolation {
+  /// The kind of violation. `"scheme"` for a URL with a scheme that
+  /// isn't allowed, `"style"` for inline CSS that may run scripts,
+  /// `"length"` for an attribute value that's too long, `"depth"` for
+  /// content that is nested too deeply, and `"nodes"` when the
+  /// maximum number of nodes was exceeded.
+  type: "scheme" | "style" | "length" | "depth" | "nodes"
+
+  /// The DOM node at which the violation occurred. For `"depth"`
+  /// violations, this node and its content were dropped, for
+  /// `"nodes"` violations, this node and all content after it.
+  dom: DOMNode
+
+  /// For attribute violations, the rule that produced the attribute.
+  rule?: ParseRule
+
+  /// For attribute violations, the name of the attribute.
+  attr?: string
+
+  /// For attribute violations, the attribute's value.
+  value?: string
+}
+
+const defaultSchemes = ["http", "https", "mailto", "tel"], defaultURLAttributes = ["href", "src"]
+const defaultStyleAttributes = ["style"]
+
+function schemeAllowed(url: string, schemes: readonly string[]) {
+  // Browsers ignore control characters and whitespace in schemes
+  let scheme = /^([a-z][a-z\d+.\-]*):/i.exec(url.replace(/[\u0000-\u0020\u007f]+/g, ""))
+  return !scheme || schemes.indexOf(scheme[1].toLowerCase()) > -1
+}
+
+// Check whether inline CSS is free of script expressions and URLs
+// with disallowed schemes.
+function styleAllowed(css: string, schemes: readonly string[]) {
+  // Strip comments and resolve escapes, which could hide keywords
+  css = css.replace(/\/\*[^]*?(\*\/|$)/g, "").replace(/\\([0-9a-f]{1,6})[ \t\n\r\f]?|\\([^])/gi, (_, hex, ch) => {
+    if (!hex) return ch
+    let code = parseInt(hex, 16)
+    return code && code <= 0x10ffff ? String.fromCodePoint(code) : "\ufffd"
+  })
+  if (/expression\s*\(/i.test(css)) return false
+  let re = /url\(\s*(?:"([^"]*)"|'([^']*)'|([^)]*))/gi, m
+  while (m = re.exec(css))
+    if (!schemeAllowed(m[1] || m[2] || m[3] || "", schemes)) return false
+  return true
+}
+
+/// Describes content that was discarded during parsing. Collected
+/// when the [`losses`](#model.ParseOptions.losses) option is given.
+export interface ParseLoss {
+  /// Why the content was discarded:
+  ///
+  ///  - `"ignored"` when the DOM node was ignored, either by a rule
+  ///    (for a tag or one of its styles) with
+  ///    [`ignore`](#model.ParseRule.ignore) set, or because it is an
+  ///    element (like `<script>`) that is ignored by default.
+  ///  - `"unmatched"` when no rule matched an element without
+  ///    children, so that there was nothing to parse it as.
+  ///  - `"unplaced"` when a node couldn't be fit into its context.
+  ///    When this is a non-leaf node, only the node itself is lost,
+  ///    and its content is parsed into the surrounding context.
+  ///  - `"mark"` when a mark isn't allowed on an inline node in the
+  ///    place where it was inserted.
+  ///  - `"limit"` when the DOM node and its content were dropped
+  ///    because they exceed the
+  ///    [`maxDepth`](#model.SanitizePolicy.maxDepth) or
+  ///    [`maxNodes`](#model.SanitizePolicy.maxNodes) limit of the
+  ///    parser's sanitization policy.
+  reason: "ignored" | "unmatched" | "unplaced" | "mark" | "limit"
+
+  /// The DOM node that was being parsed.
+  dom: DOMNode
+
+  /// For `"unplaced"` and `"mark"` losses, the node that was being
+  /// inserted. For `"mark"` losses, this is the node as it was
+  /// inserted, without the lost mark.
+  node?: Node
+
+  /// For `"mark"` losses, the mark that was dropped.
+  mark?: Mark
+}
+
+/// A trace of the decisions a parser made, which can be passed as
+/// the [`trace`](#model.ParseOptions.trace) option to explain why
+/// content was parsed the way it was.
+export class ParseTrace {
+  /// The entries recorded so far, in the order in which they
+  /// happened.
+  readonly entries: ParseTraceEntry[] = []
+
+  /// Get the entries for the given DOM node.
+  forNode(dom: DOMNode): ParseTraceEntry[] {
+    return this.entries.filter(e => e.dom == dom)
+  }
+
+  /// Render the trace as a human-readable string, with one line per
+  /// entry.
+  toString() {
+    return this.entries.map(describeTraceEntry).join("\n")
+  }
+}
+
+function describeDOM(dom: DOMNode) {
+  if (dom.nodeType == 3) return JSON.stringify(dom.nodeValue)
+  return "<" + dom.nodeName.toLowerCase() + ">"
+}
+
+function describeTraceEntry(entry: ParseTraceEntry) {
+  let result = describeDOM(entry.dom) + " " + entry.type, rule = entry.rule
+  if (rule) {
+    result += " " + JSON.stringify(rule.tag || rule.style)
+    if (entry.index != null && entry.index > -1) result += " #" + entry.index
+    if (entry.priority != null) result += " (priority " + entry.priority + ")"
+    if (rule.node) result += " -> " + rule.node
+  }
+  if (entry.attrs) result += " " + JSON.stringify(entry.attrs)
+  if (entry.addMarks && entry.addMarks.length) result += " +" + entry.addMarks.map(m => m.type.name).join(" +")
+  if (entry.removeMarks && entry.removeMarks.length) result += " -" + entry.removeMarks.map(m => m.type.name).join(" -")
+  if (entry.wrappers) result += " " + entry.wrappers.map(t => t.name).join(" > ")
+  if (entry.node) result += (entry.wrappers ? " > " : " ") + entry.node.type.name
+  return result
+}
+
 /// A value that describes how to parse a given DOM node or inline
 /// style as a ProseMirror node or mark.
 export interface ParseRule {
@@ -65,11 +324,29 @@ export interface ParseRule {
   /// A CSS property name to match. When given, this rule matches
   /// inline styles that list that property. May also have the form
   /// `"property=value"`, in which case the rule only matches if the
-  /// property's value exactly matches the given value. (For more
-  /// complicated filters, use [`getAttrs`](#model.ParseRule.getAttrs)
-  /// and return false to indicate that the match failed.) Rules
-  /// matching styles may only produce [marks](#model.ParseRule.mark),
-  /// not nodes.
+  /// property's value matches the given value. Colors and numbers
+  /// are compared by value, so `"color=red"` also matches `#f00` or
+  /// `rgb(255, 0, 0)`, and `"font-weight=400"` also matches `normal`.
+  /// Other conditions can be expressed with the `!=`, `<`, `<=`,
+  /// `>`, and `>=` operators, which compare numeric values (with
+  /// `normal` and `bold` font weights counting as 400 and 700,
+  /// relative weights like `bolder` not matching any number, and
+  /// only matching values with the same unit as the rule's value, if
+  /// it has one), as in `"font-weight>=600"`, or with `~`, which
+  /// matches the value against a case-insensitive regular expression,
+  /// as in `"font-style~italic|oblique"`. Creating a parser raises a
+  /// `SyntaxError` when a comparison's value isn't a number or a
+  /// valid regular expression. (For more complicated
+  /// filters, use [`getAttrs`](#model.ParseRule.getAttrs) and return
+  /// false to indicate that the match failed.) Rules matching styles
+  /// may only produce [marks](#model.ParseRule.mark), not nodes.
+  ///
+  /// When given in a rule that also has a [`tag`](#model.ParseRule.tag)
+  /// property, this is an additional condition on the matched
+  /// element's inline style, which must contain the property (with a
+  /// value matching the condition, if any). Only the `style`
+  /// attribute is checked, not styles applied through stylesheets or
+  /// inherited from parent elements.
   style?: string
 
   /// Can be used to change the order in which the parse rules in a
@@ -169,6 +446,10 @@ export class DOMParser {
   /// @internal
   styles: ParseRule[] = []
   /// @internal
+  styleTests: StyleTest[] = []
+  /// @internal
+  tagStyleTests: (StyleTest | null)[] = []
+  /// @internal
   normalizeLists: boolean
 
   /// Create a parser that targets the given schema, using the given
@@ -178,11 +459,19 @@ export class DOMParser {
     readonly schema: Schema,
     /// The set of [parse rules](#model.ParseRule) that the parser
     /// uses, in order of precedence.
-    readonly rules: readonly ParseRule[]
+    readonly rules: readonly ParseRule[],
+    /// A sanitization policy to apply to all content parsed by this
+    /// parser.
+    readonly policy: SanitizePolicy | null = null
   ) {
     rules.forEach(rule => {
-      if (rule.tag) this.tags.push(rule)
-      else if (rule.style) this.styles.push(rule)
+      if (rule.tag) {
+        this.tags.push(rule)
+        this.tagStyleTests.push(rule.style ? parseStyleTest(rule.style) : null)
+      } else if (rule.style) {
+        this.styles.push(rule)
+        this.styleTests.push(parseStyleTest(rule.style))
+      }
     })
 
     // Only normalize list elements when lists in the schema can't directly contain themselves
@@ -195,9 +484,7 @@ export class DOMParser {
 
   /// Parse a document from the content of a DOM node.
   parse(dom: DOMNode, options: ParseOptions = {}): Node {
-    let context = new ParseContext(this, options, false)
-    context.addAll(dom, options.from, options.to)
-    return context.finish() as Node
+    return this.parseTree(dom, options, false) as Node
   }
 
   /// Parses the content of the given DOM node, like
@@ -207,23 +494,59 @@ export class DOMParser {
   /// the schema constraints aren't applied to the start of nodes to
   /// the left of the input and the end of nodes at the end.
   parseSlice(dom: DOMNode, options: ParseOptions = {}) {
-    let context = new ParseContext(this, options, true)
-    context.addAll(dom, options.from, options.to)
-    return Slice.maxOpen(context.finish() as Fragment)
+    return Slice.maxOpen(this.parseTree(dom, options, true) as Fragment)
+  }
+
+  /// Parse a document from an HTML string. This doesn't require a
+  /// DOM implementation—the string is tokenized by a built-in HTML
+  /// reader, which produces a lightweight tree of element objects
+  /// that the parse rules are applied to. These support the DOM
+  /// properties and methods commonly used by
+  /// [`getAttrs`](#model.ParseRule.getAttrs) functions
+  /// (`getAttribute`, `hasAttribute`, `style`, `textContent`,
+  /// `matches`, `querySelector`, and tree navigation), and
+  /// [`tag`](#model.ParseRule.tag) selectors may use type, class, id,
+  /// and attribute selectors, combinators, and simple structural
+  /// pseudo-classes. Options are the same as for
+  /// [`parse`](#model.DOMParser.parse), except that
+  /// `findPositions` isn't meaningful here.
+  parseHTML(html: string, options: ParseOptions = {}): Node {
+    return this.parseTree(readHTML(html), options, false) as Node
+  }
+
+  /// Parse a slice from an HTML string, in the way
+  /// [`parseSlice`](#model.DOMParser.parseSlice) does for DOM
+  /// content. See [`parseHTML`](#model.DOMParser.parseHTML).
+  parseHTMLSlice(html: string, options: ParseOptions = {}): Slice {
+    return Slice.maxOpen(this.parseTree(readHTML(html), options, true) as Fragment)
+  }
+
+  /// @internal
+  parseTree(dom: DOMTreeNode, options: ParseOptions, open: boolean) {
+    // Normalizers and parse rules see the nodes produced by the HTML
+    // reader as DOM nodes, since they implement the parts of the DOM
+    // interface that those commonly use.
+    let domNode = dom as DOMNode
+    if (options.normalize) options.normalize.forEach(f => f(domNode))
+    let context = new ParseContext(this, options, open)
+    context.addAll(domNode, options.from, options.to)
+    return context.finish()
   }
 
   /// @internal
   matchTag(dom: DOMNode, context: ParseContext, after?: ParseRule) {
     for (let i = after ? this.tags.indexOf(after) + 1 : 0; i < this.tags.length; i++) {
-      let rule = this.tags[i]
+      let rule = this.tags[i], styleTest = this.tagStyleTests[i]
       if (matches(dom, rule.tag!) &&
           (rule.namespace === undefined || (dom as HTMLElement).namespaceURI == rule.namespace) &&
+          (!styleTest || matchesInlineStyle(dom as HTMLElement, styleTest)) &&
           (!rule.context || context.matchesContext(rule.context))) {
         if (rule.getAttrs) {
           let result = rule.getAttrs(dom as HTMLElement)
           if (result === false) continue
           rule.attrs = result || undefined
         }
+        if (this.policy && !context.attrsAllowed(rule)) continue
         return rule
       }
     }
@@ -232,20 +555,17 @@ export class DOMParser {
   /// @internal
   matchStyle(prop: string, value: string, context: ParseContext, after?: ParseRule) {
     for (let i = after ? this.styles.indexOf(after) + 1 : 0; i < this.styles.length; i++) {
-      let rule = this.styles[i], style = rule.style!
-      if (style.indexOf(prop) != 0 ||
+      let rule = this.styles[i], test = this.styleTests[i]
+      if (test.prop != prop ||
           rule.context && !context.matchesContext(rule.context) ||
-          // Test that the style string either precisely matches the prop,
-          // or has an '=' sign after the prop, followed by the given
-          // value.
-          style.length > prop.length &&
-          (style.charCodeAt(prop.length) != 61 || style.slice(prop.length + 1) != value))
+          !testStyle(test, value))
         continue
       if (rule.getAttrs) {
         let result = rule.getAttrs(value)
         if (result === false) continue
         rule.attrs = result || undefined
       }
+      if (this.policy && !context.attrsAllowed(rule)) continue
       return rule
     }
   }
@@ -304,6 +624,9 @@ const ignoreTags: {[tagName: string]: boolean} = {
 
 const listTags: {[tagName: string]: boolean} = {ol: true, ul: true}
 
+// Empty elements that aren't reported as lost when no rule matches them
+const noContentTags: {[tagName: string]: boolean} = {br: true, span: true, wbr: true}
+
 // Using a bitfield for node context options
 const OPT_PRESERVE_WS = 1, OPT_PRESERVE_WS_FULL = 2, OPT_OPEN_LEFT = 4
 
@@ -398,6 +721,12 @@ class ParseContext {
   find: {node: DOMNode, offset: number, pos?: number}[] | undefined
   needsBlock: boolean
   nodes: NodeContext[]
+  // The DOM node currently being parsed, used in trace entries.
+  dom: DOMNode | null = null
+  // The nesting depth of the current DOM node and the number of DOM
+  // nodes seen, for the parser's sanitization policy.
+  depth = 0
+  nodeCount = 0
 
   constructor(
     // The parser we are using.
@@ -428,6 +757,20 @@ class ParseContext {
   // otherwise, the node is passed to `addElement` or, if it has a
   // `style` attribute, `addElementWithStyles`.
   addDOM(dom: DOMNode) {
+    this.dom = dom
+    let policy = this.parser.policy
+    if (policy) {
+      if (policy.maxNodes != null && ++this.nodeCount > policy.maxNodes) {
+        if (this.nodeCount == policy.maxNodes + 1) this.violation({type: "nodes", dom})
+        this.lose("limit")
+        return
+      }
+      if (policy.maxDepth != null && dom.nodeType == 1 && this.depth > policy.maxDepth) {
+        this.violation({type: "depth", dom})
+        this.lose("limit")
+        return
+      }
+    }
     if (dom.nodeType == 3) {
       this.addTextNode(dom as Text)
     } else if (dom.nodeType == 1) {
@@ -436,7 +779,10 @@ class ParseContext {
         this.addElement(dom as HTMLElement)
       } else {
         let marks = this.readStyles(parseStyles(style))
-        if (!marks) return // A style with ignore: true
+        if (!marks) { // A style with ignore: true
+          this.lose("ignored")
+          return
+        }
         let [addMarks, removeMarks] = marks, top = this.top
         for (let i = 0; i < removeMarks.length; i++) this.removePendingMark(removeMarks[i], top)
         for (let i = 0; i < addMarks.length; i++) this.addPendingMark(addMarks[i])
@@ -483,12 +829,16 @@ class ParseContext {
   addElement(dom: HTMLElement, matchAfter?: ParseRule) {
     let name = dom.nodeName.toLowerCase(), ruleID
     if (listTags.hasOwnProperty(name) && this.parser.normalizeLists) normalizeList(dom)
-    let rule = (this.options.ruleFromNode && this.options.ruleFromNode(dom)) ||
-        (ruleID = this.parser.matchTag(dom, this, matchAfter))
+    let rule = this.options.ruleFromNode && this.options.ruleFromNode(dom)
+    if (rule && this.parser.policy && !this.attrsAllowed(rule)) rule = null
+    if (!rule) rule = ruleID = this.parser.matchTag(dom, this, matchAfter)
     if (rule ? rule.ignore : ignoreTags.hasOwnProperty(name)) {
+      this.trace("ignore", rule)
+      this.lose("ignored")
       this.findInside(dom)
       this.ignoreFallback(dom)
     } else if (!rule || rule.skip || rule.closeParent) {
+      this.trace("skip", rule)
       if (rule && rule.closeParent) this.open = Math.max(0, this.open - 1)
       else if (rule && (rule.skip as any).nodeType) dom = rule.skip as any as HTMLElement
       let sync, top = this.top, oldNeedsBlock = this.needsBlock
@@ -500,10 +850,13 @@ class ParseContext {
         sync = true
         if (!top.type) this.needsBlock = true
       } else if (!dom.firstChild) {
+        if (!rule && !noContentTags.hasOwnProperty(name)) this.lose("unmatched")
         this.leafFallback(dom)
         return
       }
+      let outer = this.dom
       this.addAll(dom)
+      this.dom = outer
       if (sync) this.sync(top)
       this.needsBlock = oldNeedsBlock
     } else {
@@ -513,15 +866,19 @@ class ParseContext {
 
   // Called for leaf DOM nodes that would otherwise be ignored
   leafFallback(dom: DOMNode) {
-    if (dom.nodeName == "BR" && this.top.type && this.top.type.inlineContent)
+    if (dom.nodeName == "BR" && this.top.type && this.top.type.inlineContent) {
+      this.trace("leafFallback")
       this.addTextNode(dom.ownerDocument!.createTextNode("\n"))
+    }
   }
 
   // Called for ignored nodes
   ignoreFallback(dom: DOMNode) {
     // Ignored BR nodes should at least create an inline context
-    if (dom.nodeName == "BR" && (!this.top.type || !this.top.type.inlineContent))
+    if (dom.nodeName == "BR" && (!this.top.type || !this.top.type.inlineContent)) {
+      this.trace("ignoreFallback")
       this.findPlace(this.parser.schema.text("-"))
+    }
   }
 
   // Run any style parser associated with the node's styles. Either
@@ -533,13 +890,18 @@ class ParseContext {
       for (let after = undefined;;) {
         let rule = this.parser.matchStyle(styles[i], styles[i + 1], this, after)
         if (!rule) break
-        if (rule.ignore) return null
+        if (rule.ignore) {
+          this.trace("ignore", rule)
+          return null
+        }
         if (rule.clearMark) {
-          this.top.pendingMarks.forEach(m => {
-            if (rule!.clearMark!(m)) remove = m.addToSet(remove)
-          })
+          let cleared = this.top.pendingMarks.filter(m => rule!.clearMark!(m))
+          cleared.forEach(m => remove = m.addToSet(remove))
+          this.trace("style", rule, {removeMarks: cleared})
         } else {
-          add = this.parser.schema.marks[rule.mark!].create(rule.attrs).addToSet(add)
+          let mark = this.parser.schema.marks[rule.mark!].create(rule.attrs)
+          add = mark.addToSet(add)
+          this.trace("style", rule, {attrs: rule.attrs, addMarks: [mark]})
         }
         if (rule.consuming === false) after = rule
         else break
@@ -555,6 +917,7 @@ class ParseContext {
     let sync, nodeType, mark
     if (rule.node) {
       nodeType = this.parser.schema.nodes[rule.node]
+      this.trace("rule", rule, {attrs: rule.attrs})
       if (!nodeType.isLeaf) {
         sync = this.enter(nodeType, rule.attrs || null, rule.preserveWhitespace)
       } else if (!this.insertNode(nodeType.create(rule.attrs))) {
@@ -563,6 +926,7 @@ class ParseContext {
     } else {
       let markType = this.parser.schema.marks[rule.mark!]
       mark = markType.create(rule.attrs)
+      this.trace("rule", rule, {attrs: rule.attrs, addMarks: [mark]})
       this.addPendingMark(mark)
     }
     let startIn = this.top
@@ -580,7 +944,11 @@ class ParseContext {
       else if (typeof rule.contentElement == "function") contentDOM = rule.contentElement(dom)
       else if (rule.contentElement) contentDOM = rule.contentElement
       this.findAround(dom, contentDOM, true)
+      // Parsing the content moves `this.dom` to the children, so
+      // restore it for anything recorded for this element afterwards
+      let outer = this.dom
       this.addAll(contentDOM)
+      this.dom = outer
     }
     if (sync && this.sync(startIn)) this.open--
     if (mark) this.removePendingMark(mark, startIn)
@@ -591,12 +959,14 @@ class ParseContext {
   // synchronize after every block element.
   addAll(parent: DOMNode, startIndex?: number, endIndex?: number) {
     let index = startIndex || 0
+    this.depth++
     for (let dom = startIndex ? parent.childNodes[startIndex] : parent.firstChild,
              end = endIndex == null ? null : parent.childNodes[endIndex];
          dom != end; dom = dom!.nextSibling, ++index) {
       this.findAtPoint(parent, index)
       this.addDOM(dom!)
     }
+    this.depth--
     this.findAtPoint(parent, index)
   }
 
@@ -616,6 +986,7 @@ class ParseContext {
       if (cx.solid) break
     }
     if (!route) return false
+    if (route.length) this.trace("wrap", undefined, {wrappers: route, node})
     this.sync(sync!)
     for (let i = 0; i < route.length; i++)
       this.enterInner(route[i], null, false)
@@ -633,21 +1004,35 @@ class ParseContext {
       let top = this.top
       top.applyPending(node.type)
       if (top.match) top.match = top.match.matchType(node.type)
+      // Pending marks that are already active (as with nested
+      // elements for the same mark) aren't lost
       let marks = top.activeMarks
-      for (let i = 0; i < node.marks.length; i++)
+      let lost = node.isInline ? top.pendingMarks.filter(m => !m.isInSet(marks)) : Mark.none
+      for (let i = 0; i < node.marks.length; i++) {
         if (!top.type || top.type.allowsMarkType(node.marks[i].type))
           marks = node.marks[i].addToSet(marks)
-      top.content.push(node.mark(marks))
+        else
+          lost = node.marks[i].addToSet(lost)
+      }
+      let placed = node.mark(marks)
+      top.content.push(placed)
+      for (let i = 0; i < lost.length; i++) this.lose("mark", placed, lost[i])
       return true
     }
+    this.trace("drop", undefined, {node})
+    this.lose("unplaced", node)
     return false
   }
 
   // Try to start a node of the given type, adjusting the context when
   // necessary.
   enter(type: NodeType, attrs: Attrs | null, preserveWS?: boolean | "full") {
-    let ok = this.findPlace(type.create(attrs))
+    let node = type.create(attrs), ok = this.findPlace(node)
     if (ok) this.enterInner(type, attrs, true, preserveWS)
+    else {
+      this.trace("drop", undefined, {node})
+      this.lose("unplaced", node)
+    }
     return ok
   }
 
@@ -761,6 +1146,57 @@ class ParseContext {
     return match(parts.length - 1, this.open)
   }
 
+  trace(type: ParseTraceEntry["type"], rule?: ParseRule, fields?: Partial<ParseTraceEntry>) {
+    let trace = this.options.trace
+    if (!trace || !this.dom) return
+    let entry: ParseTraceEntry = {type, dom: this.dom}
+    if (rule) {
+      entry.rule = rule
+      entry.index = this.parser.rules.indexOf(rule)
+      entry.priority = rule.priority == null ? 50 : rule.priority
+    }
+    trace.entries.push(fields ? Object.assign(entry, fields) : entry)
+  }
+
+  // Check the attributes produced by a rule against the parser's
+  // sanitization policy.
+  attrsAllowed(rule: ParseRule) {
+    let policy = this.parser.policy!, attrs = rule.attrs
+    if (!attrs) return true
+    let schemes = policy.allowedSchemes || defaultSchemes, urlAttrs = policy.urlAttributes || defaultURLAttributes
+    let styleAttrs = policy.styleAttributes || defaultStyleAttributes
+    for (let attr in attrs) {
+      let value = attrs[attr]
+      if (typeof value != "string") continue
+      if (policy.maxAttributeLength != null && value.length > policy.maxAttributeLength) {
+        this.violation({type: "length", dom: this.dom!, rule, attr, value})
+        return false
+      }
+      if (urlAttrs.indexOf(attr) > -1 && !schemeAllowed(value, schemes)) {
+        this.violation({type: "scheme", dom: this.dom!, rule, attr, value})
+        return false
+      }
+      if (styleAttrs.indexOf(attr) > -1 && !styleAllowed(value, schemes)) {
+        this.violation({type: "style", dom: this.dom!, rule, attr, value})
+        return false
+      }
+    }
+    return true
+  }
+
+  violation(violation: SanitizeViolation) {
+    if (this.options.violations) this.options.violations.push(violation)
+  }
+
+  lose(reason: ParseLoss["reason"], node?: Node, mark?: Mark) {
+    let losses = this.options.losses
+    if (!losses || !this.dom) return
+    let loss: ParseLoss = {reason, dom: this.dom}
+    if (node) loss.node = node
+    if (mark) loss.mark = mark
+    losses.push(loss)
+  }
+
   textblockFromContext() {
     let $context = this.options.context
     if ($context) for (let d = $context.depth; d >= 0; d--) {
@@ -818,6 +1254,15 @@ function matches(dom: any, selector: string): boolean {
   return (dom.matches || dom.msMatchesSelector || dom.webkitMatchesSelector || dom.mozMatchesSelector).call(dom, selector)
 }
 
+// Test whether an element's inline style has a property that
+// matches the given condition.
+function matchesInlineStyle(dom: HTMLElement, test: StyleTest) {
+  let styles = parseStyles(dom.getAttribute("style") || "")
+  for (let i = styles.length - 2; i >= 0; i -= 2)
+    if (styles[i] == test.prop) return testStyle(test, styles[i + 1])
+  return false
+}
+
 // Tokenize a style attribute into property/value pairs.
 function parseStyles(style: string): string[] {
   let re = /\s*([\w-]+)\s*:\s*([^;]+)/g, m, result = []
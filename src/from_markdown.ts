@@ -0,0 +1,846 @@
+import {Fragment} from "./fragment"
+import {Slice} from "./replace"
+import {Mark} from "./mark"
+import {Node} from "./node"
+import {Schema, Attrs, NodeType, MarkType} from "./schema"
+import {decodeEntities} from "./html"
+
+/// Describes a Markdown construct that a
+/// [`MarkdownParser`](#model.MarkdownParser) found, and is passed to
+/// [`getAttrs`](#model.MarkdownParseRule.getAttrs). The properties
+/// other than `type` are only present for the constructs that they
+/// apply to. They are named after the attributes commonly used for
+/// these constructs, so that rules without `attrs` or `getAttrs`
+/// can use them directly.
+export interface MarkdownToken {
+  /// The name of the construct. One of `"paragraph"`, `"heading"`,
+  /// `"blockquote"`, `"code_block"`, `"horizontal_rule"`,
+  /// `"bullet_list"`, `"ordered_list"`, `"list_item"`, `"html"`
+  /// (for HTML blocks), `"em"`, `"strong"`, `"link"`, `"code"`,
+  /// `"image"`, `"hard_break"`, and `"html_inline"`.
+  type: string
+  /// The level of a heading.
+  level?: number
+  /// The info string of a fenced code block (empty for indented
+  /// code).
+  params?: string
+  /// The number an ordered list starts at.
+  order?: number
+  /// Whether a list is tight (has no blank lines between its items
+  /// or between the blocks in its items).
+  tight?: boolean
+  /// The marker character of a list: `"-"`, `"+"`, or `"*"` for
+  /// bullet lists, `"."` or `")"` for ordered lists.
+  bullet?: string
+  /// The target of a link.
+  href?: string
+  /// The title of a link or image, or null when not given.
+  title?: string | null
+  /// The source of an image.
+  src?: string
+  /// The alternative text of an image.
+  alt?: string
+  /// The source text of an HTML block or inline HTML tag.
+  html?: string
+}
+
+/// Describes how a [Markdown construct](#model.MarkdownToken.type)
+/// is represented in the schema.
+export interface MarkdownParseRule {
+  /// The name of the node type to create for this construct.
+  node?: string
+
+  /// The name of the mark type to apply to the content of this
+  /// construct. Only meaningful for inline constructs.
+  mark?: string
+
+  /// When true, the construct and its content are dropped.
+  ignore?: boolean
+
+  /// Attributes for the node or mark created by this rule.
+  attrs?: Attrs
+
+  /// Compute the attributes for the node or mark from the token.
+  /// When neither this nor `attrs` is given, the token's properties
+  /// that have the same name as an attribute of the node or mark type
+  /// are used.
+  getAttrs?: (token: MarkdownToken) => Attrs | null
+}
+
+/// A parser that reads [CommonMark](https://commonmark.org/)
+/// Markdown text into documents of a given schema. Its mapping
+/// from Markdown constructs to node and mark types is defined by an
+/// object of [rules](#model.MarkdownParseRule).
+///
+/// The parser follows the CommonMark spec, with two exceptions: of
+/// HTML's named character references, only a common subset (such as
+/// `&amp;`, `&copy;`, or `&eacute;`) is decoded, and others are left
+/// as they are. And blockquotes and lists nested more than 100
+/// levels deep are read as paragraph text, and emphasis, links, and
+/// images nested that deep as plain text.
+///
+/// Content that doesn't fit the schema is [repaired](#model.Node.repair),
+/// so that, for example, inline content at the top level is wrapped
+/// in a textblock and nodes without a rule are replaced by their
+/// content. Constructs without a rule are read as their content
+/// (for containers and marks), as a paragraph (for headings, code
+/// blocks, and HTML blocks), as plain text (for code spans, hard
+/// breaks, and inline HTML), or dropped (for horizontal rules).
+/// Images without a rule are read as their alternative text.
+export class MarkdownParser {
+  /// Create a parser with the given rules, which map construct names
+  /// to the way they are represented.
+  constructor(
+    /// The schema into which the parser parses.
+    readonly schema: Schema,
+    /// The rules, by construct name.
+    readonly rules: {readonly [construct: string]: MarkdownParseRule}
+  ) {}
+
+  /// Parse a Markdown string into a document.
+  parse(text: string): Node {
+    let reader = readBlocks(text)
+    return this.schema.topNodeType.create(null, this.blocks(reader.doc.children, reader.refs)).repair().node
+  }
+
+  /// Parse a Markdown string into a slice that is open on both
+  /// sides, so that, for example, a single paragraph of text is
+  /// inserted inline when the slice is pasted.
+  parseSlice(text: string): Slice {
+    return Slice.maxOpen(this.parse(text).content)
+  }
+
+  /// Create a parser using the schema's node and mark types that
+  /// have the same name as a Markdown construct, such as
+  /// `paragraph`, `heading`, `bullet_list`, `em`, or `link`.
+  static fromSchema(schema: Schema): MarkdownParser {
+    return schema.cached.markdownParser as MarkdownParser ||
+      (schema.cached.markdownParser = new MarkdownParser(schema, MarkdownParser.schemaRules(schema)))
+  }
+
+  /// @internal
+  static schemaRules(schema: Schema) {
+    let rules: {[construct: string]: MarkdownParseRule} = Object.create(null)
+    for (let name of blockConstructs.concat(["image", "hard_break"])) if (schema.nodes[name]) rules[name] = {node: name}
+    for (let name of ["em", "strong", "link", "code"]) if (schema.marks[name]) rules[name] = {mark: name}
+    return rules
+  }
+
+  /// @internal
+  rule(token: MarkdownToken) {
+    let rule = this.rules[token.type]
+    return rule && !rule.ignore && (rule.node || rule.mark) ? rule : null
+  }
+
+  /// @internal
+  ignored(type: string) {
+    let rule = this.rules[type]
+    return !!(rule && rule.ignore)
+  }
+
+  /// @internal
+  attrs(rule: MarkdownParseRule, token: MarkdownToken, type: NodeType | MarkType) {
+    if (rule.getAttrs) return rule.getAttrs(token)
+    if (rule.attrs) return rule.attrs
+    let attrs: {[name: string]: any} = {}
+    for (let name in type.spec.attrs || {})
+      if ((token as any)[name] !== undefined) attrs[name] = (token as any)[name]
+    return attrs
+  }
+
+  /// @internal
+  node(token: MarkdownToken, content: Fragment | Node[] | null, marks?: readonly Mark[]) {
+    let rule = this.rule(token)
+    let type = rule && rule.node && this.schema.nodes[rule.node]
+    return type ? type.create(this.attrs(rule!, token, type), content, marks) : null
+  }
+
+  /// @internal
+  blocks(blocks: readonly MdBlock[], refs: LinkRefs): Node[] {
+    let result: Node[] = []
+    for (let block of blocks) {
+      let {type} = block
+      if (this.ignored(type)) continue
+      let token: MarkdownToken = {type}
+      if (type == "heading") token.level = block.level
+      else if (type == "code_block") token.params = block.info
+      else if (type == "html") token.html = block.text
+      else if (type == "bullet_list" || type == "ordered_list") {
+        token.tight = block.tight
+        token.bullet = block.bullet
+        if (type == "ordered_list") token.order = block.start
+      }
+      let node
+      if (type == "paragraph" || type == "heading" || type == "code_block" || type == "html") {
+        let inline = type == "code_block" || type == "html"
+          ? (block.text ? [this.schema.text(block.text)] : []) : this.inline(parseInline(block.text, refs))
+        node = this.node(token, inline)
+        if (!node && type != "paragraph") node = this.node({type: "paragraph"}, inline)
+        if (!node) { result.push(...inline); continue }
+      } else if (type == "horizontal_rule") {
+        node = this.node(token, null)
+        if (!node) continue
+      } else {
+        let content = this.blocks(block.children, refs)
+        node = this.node(token, content)
+        if (!node) { result.push(...content); continue }
+      }
+      result.push(node)
+    }
+    return result
+  }
+
+  /// @internal
+  inline(items: readonly Inline[], marks: readonly Mark[] = Mark.none, result: Node[] = []): Node[] {
+    let text = (value: string) => { if (value) result.push(this.schema.text(value, marks)) }
+    for (let item of items) {
+      if (item.type == "text") {
+        text(item.text)
+      } else if (item.type == "code" || item.type == "html_inline" || item.type == "hard_break") {
+        if (this.ignored(item.type)) continue
+        let token: MarkdownToken = {type: item.type}
+        if (item.type == "html_inline") token.html = item.text
+        let rule = this.rule(token), markType = rule && rule.mark && this.schema.marks[rule.mark], node
+        if (markType) {
+          if (item.text) result.push(this.schema.text(item.text, markType.create(this.attrs(rule!, token, markType)).addToSet(marks)))
+        } else if (node = this.node(token, item.type == "hard_break" || !item.text ? null : [this.schema.text(item.text)], marks)) {
+          result.push(node)
+        } else {
+          text(item.text)
+        }
+      } else if (item.type == "image") {
+        if (this.ignored("image")) continue
+        let token: MarkdownToken = {type: "image", src: item.href, title: item.title, alt: plainText(item.content)}
+        let node = this.node(token, null, marks)
+        if (node) result.push(node)
+        else text(token.alt!)
+      } else {
+        if (this.ignored(item.type)) continue
+        let token: MarkdownToken = {type: item.type}
+        if (item.type == "link") { token.href = item.href; token.title = item.title }
+        let rule = this.rule(token), type = rule && rule.mark && this.schema.marks[rule.mark]
+        this.inline(item.content, type ? type.create(this.attrs(rule!, token, type)).addToSet(marks) : marks, result)
+      }
+    }
+    return result
+  }
+}
+
+const blockConstructs = ["paragraph", "heading", "blockquote", "code_block", "horizontal_rule",
+                         "bullet_list", "ordered_list", "list_item"]
+
+// Block structure
+
+type LinkRefs = {[label: string]: {href: string, title: string | null}}
+
+class MdBlock {
+  children: MdBlock[] = []
+  lines: string[] = []
+  open = true
+  text = ""
+  parent: MdBlock | null = null
+  depth = 0
+  // The first and last line that have content in this block.
+  startLine: number
+  endLine: number
+  // Headings
+  level = 0
+  // Code blocks
+  info = ""
+  fence = ""
+  fenceIndent = 0
+  // HTML blocks that end at a line matching a pattern, rather than at
+  // a blank line
+  htmlEnd: RegExp | null = null
+  // Lists and list items
+  bullet = ""
+  start = 1
+  tight = true
+  indent = 0
+
+  constructor(readonly type: string, line: number) {
+    this.startLine = this.endLine = line
+  }
+
+  get isContainer() {
+    return this.type == "document" || this.type == "blockquote" || this.type == "list_item" || this.type == "bullet_list" ||
+      this.type == "ordered_list"
+  }
+
+  get isList() { return this.type == "bullet_list" || this.type == "ordered_list" }
+
+  get lastChild(): MdBlock | null {
+    let last = this.children.length ? this.children[this.children.length - 1] : null
+    return last && last.open ? last : null
+  }
+}
+
+const thematicBreak = /^ {0,3}((?:\*[ \t]*){3,}|(?:-[ \t]*){3,}|(?:_[ \t]*){3,})$/
+const atxHeading = /^ {0,3}(#{1,6})(?=[ \t]|$)(.*)$/
+const openFence = /^ {0,3}(`{3,}(?=[^`]*$)|~{3,})(.*)$/
+const setextLine = /^ {0,3}(=+|-+)[ \t]*$/
+const listMarker = /^ {0,3}([*+-]|(\d{1,9})([.)]))(?=[ \t]|$)/
+
+const htmlBlockTags = "address|article|aside|base|basefont|blockquote|body|caption|center|col|colgroup|dd|details|" +
+  "dialog|dir|div|dl|dt|fieldset|figcaption|figure|footer|form|frame|frameset|h[1-6]|head|header|hr|html|iframe|" +
+  "legend|li|link|main|menu|menuitem|nav|noframes|ol|optgroup|option|p|param|search|section|summary|table|tbody|" +
+  "td|tfoot|th|thead|title|tr|track|ul"
+
+// The kinds of HTML blocks, with the pattern that starts them, the
+// pattern that ends them (or null for blocks that end at a blank
+// line), and whether they can interrupt a paragraph.
+const htmlBlocks: {start: RegExp, end: RegExp | null, interrupt: boolean}[] = [
+  {start: /^ {0,3}<(?:script|pre|style|textarea)(?=[ \t>]|$)/i, end: /<\/(?:script|pre|style|textarea)>/i, interrupt: true},
+  {start: /^ {0,3}<!--/, end: /-->/, interrupt: true},
+  {start: /^ {0,3}<\?/, end: /\?>/, interrupt: true},
+  {start: /^ {0,3}<![a-zA-Z]/, end: />/, interrupt: true},
+  {start: /^ {0,3}<!\[CDATA\[/, end: /\]\]>/, interrupt: true},
+  {start: new RegExp("^ {0,3}</?(?:" + htmlBlockTags + ")(?=[ \\t>]|/>|$)", "i"), end: null, interrupt: true},
+  {start: /^ {0,3}(?:<[a-zA-Z][a-zA-Z0-9-]*(?:[ \t]+[a-zA-Z_:][\w.:-]*(?:[ \t]*=[ \t]*(?:[^ \t"'=<>`]+|'[^']*'|"[^"]*"))?)*[ \t]*\/?>|<\/[a-zA-Z][a-zA-Z0-9-]*[ \t]*>)[ \t]*$/,
+   end: null, interrupt: false}
+]
+
+function htmlBlockStart(text: string, inParagraph: boolean) {
+  for (let kind of htmlBlocks) if ((kind.interrupt || !inParagraph) && kind.start.test(text)) return kind
+  return null
+}
+
+const maxNesting = 100
+
+// Tabs are expanded to spaces (with a tab stop of 4) for measuring
+// indentation, but content is taken from the original line.
+function expandTabs(line: string) {
+  if (line.indexOf("\t") < 0) return line
+  let result = ""
+  for (let i = 0; i < line.length; i++) {
+    let ch = line.charAt(i)
+    if (ch == "\t") result += " ".repeat(4 - result.length % 4)
+    else result += ch
+  }
+  return result
+}
+
+// Get the text of the original line from the given column. When the
+// column falls inside a tab, the rest of the tab is represented by
+// spaces.
+function textFrom(line: string, col: number) {
+  for (let i = 0, cur = 0; i < line.length; i++) {
+    if (cur >= col) return line.slice(i)
+    let next = line.charAt(i) == "\t" ? cur + 4 - cur % 4 : cur + 1
+    if (next > col) return " ".repeat(next - col) + line.slice(i + 1)
+    cur = next
+  }
+  return ""
+}
+
+function indentation(line: string, pos: number) {
+  let end = pos
+  while (end < line.length && line.charCodeAt(end) == 32) end++
+  return end - pos
+}
+
+function isBlank(line: string, pos = 0) {
+  return /^[ \t]*$/.test(line.slice(pos))
+}
+
+class BlockReader {
+  doc: MdBlock
+  refs: LinkRefs = Object.create(null)
+  line = 0
+
+  constructor() {
+    this.doc = new MdBlock("document", 0)
+  }
+
+  tip() {
+    let block = this.doc
+    for (let next; next = block.lastChild;) block = next
+    return block
+  }
+
+  // Close a block and its open descendants, innermost first.
+  close(block: MdBlock) {
+    let open = [block]
+    for (let child; child = open[open.length - 1].lastChild;) open.push(child)
+    for (let i = open.length - 1; i >= 0; i--) this.finishBlock(open[i])
+  }
+
+  finishBlock(block: MdBlock) {
+    block.open = false
+    if (block.type == "paragraph") {
+      let text = block.lines.join("\n"), m
+      while (text.charAt(0) == "[" && (m = readLinkDefinition(text))) {
+        let label = normalizeLabel(m.label)
+        if (!(label in this.refs)) this.refs[label] = {href: m.href, title: m.title}
+        text = text.slice(m.length)
+      }
+      block.text = text.trim()
+      if (!block.text) block.parent!.children.pop()
+    } else if (block.type == "heading" || block.type == "html") {
+      block.text = block.lines.join("\n").trim()
+    } else if (block.type == "code_block") {
+      let lines = block.lines
+      if (!block.fence) {
+        while (lines.length && isBlank(lines[lines.length - 1])) lines.pop()
+        while (lines.length && isBlank(lines[0])) lines.shift()
+      }
+      block.text = lines.join("\n")
+    } else if (block.isList) {
+      let items = block.children
+      block.tight = items.every((item, i) =>
+        (i == 0 || item.startLine <= items[i - 1].endLine + 1) &&
+        item.children.every((child, j) => j == 0 || child.startLine <= item.children[j - 1].endLine + 1))
+    }
+  }
+
+  // Add a block to the given container, closing blocks that can't
+  // contain it.
+  add(container: MdBlock, block: MdBlock) {
+    for (;;) {
+      let fits = block.type == "list_item" ? container.isList
+        : container.isContainer && !container.isList
+      if (fits) break
+      this.close(container)
+      container = container.parent!
+    }
+    let last = container.lastChild
+    if (last) this.close(last)
+    block.parent = container
+    block.depth = container.depth + 1
+    container.children.push(block)
+    return block
+  }
+
+  touch(block: MdBlock) {
+    for (let cur: MdBlock | null = block; cur; cur = cur.parent) cur.endLine = this.line
+  }
+
+  readLine(raw: string) {
+    let line = expandTabs(raw)
+    let container = this.doc, pos = 0
+    // Find the open blocks that this line continues
+    for (let child; child = container.lastChild;) {
+      let indent = indentation(line, pos), blank = isBlank(line, pos), matched = true
+      if (child.type == "blockquote") {
+        if (indent <= 3 && line.charAt(pos + indent) == ">") {
+          pos += indent + 1
+          if (line.charAt(pos) == " ") pos++
+        } else {
+          matched = false
+        }
+      } else if (child.type == "list_item") {
+        // An item can start with at most one blank line
+        if (blank) {
+          matched = child.children.length > 0
+          if (matched) pos += Math.min(indent, child.indent)
+        } else if (indent >= child.indent) pos += child.indent
+        else matched = false
+      } else if (child.type == "code_block") {
+        if (child.fence) {
+          let close = /^ {0,3}(`{3,}|~{3,})[ \t]*$/.exec(line.slice(pos))
+          if (close && close[1].charAt(0) == child.fence.charAt(0) && close[1].length >= child.fence.length) {
+            this.touch(child)
+            this.close(child)
+            return
+          }
+          pos += Math.min(indent, child.fenceIndent)
+        } else if (indent >= 4) {
+          pos += 4
+        } else if (blank) {
+          pos += indent
+        } else {
+          matched = false
+        }
+      } else if (child.type == "html" && child.htmlEnd) {
+        // Continues until its end pattern, even across blank lines
+      } else if (child.type == "paragraph" || child.type == "html") {
+        matched = !blank
+      } else if (!child.isList) {
+        matched = false
+      }
+      if (!matched) break
+      container = child
+    }
+
+    let matchedContainer = container, unmatchedClosed = false
+    let closeUnmatched = () => {
+      if (unmatchedClosed) return
+      unmatchedClosed = true
+      let last = matchedContainer.lastChild
+      if (last) this.close(last)
+    }
+    let startBlock = (type: string) => {
+      closeUnmatched()
+      container = this.add(container, new MdBlock(type, this.line))
+      this.touch(container)
+      return container
+    }
+
+    // Look for new block starts. Containers nested too deeply are
+    // read as text, so that the resulting document can be processed
+    // without running out of stack space.
+    while (container.type != "code_block" && container.type != "html" && container.depth < maxNesting) {
+      let rest = line.slice(pos), indent = indentation(line, pos), m, html
+      // Only some block types can interrupt a paragraph
+      let inParagraph = container.type == "paragraph"
+      if (indent >= 4) {
+        if (this.tip().type == "paragraph" && !isBlank(rest)) break
+        startBlock("code_block")
+        pos += 4
+        break
+      }
+      if (rest.charAt(indent) == ">") {
+        startBlock("blockquote")
+        pos += indent + 1
+        if (line.charAt(pos) == " ") pos++
+      } else if (m = atxHeading.exec(textFrom(raw, pos))) {
+        startBlock("heading").level = m[1].length
+        container.lines.push(m[2].replace(/(^|[ \t]+)#+[ \t]*$/, ""))
+        pos = line.length
+        break
+      } else if (m = openFence.exec(textFrom(raw, pos))) {
+        let block = startBlock("code_block")
+        block.fence = m[1]
+        block.fenceIndent = indent
+        block.info = unescapeString(m[2].trim())
+        return
+      } else if (html = htmlBlockStart(rest, inParagraph)) {
+        startBlock("html").htmlEnd = html.end
+        break
+      } else if (inParagraph && (m = setextLine.exec(rest))) {
+        let para = container, parent = para.parent!
+        closeUnmatched()
+        this.close(para)
+        container = parent
+        // Paragraphs that only held link definitions were removed
+        if (parent.children[parent.children.length - 1] != para) continue
+        parent.children.pop()
+        let heading = this.add(parent, new MdBlock("heading", para.startLine))
+        heading.level = m[1].charAt(0) == "=" ? 1 : 2
+        heading.lines.push(para.text)
+        this.touch(heading)
+        this.close(heading)
+        return
+      } else if (thematicBreak.test(rest)) {
+        startBlock("horizontal_rule")
+        this.close(container)
+        return
+      } else if (m = listMarker.exec(rest)) {
+        let ordered = m[2] != null, after = indent + m[1].length
+        let space = indentation(line, pos + after), emptyItem = isBlank(line, pos + after)
+        if (inParagraph && (emptyItem || ordered && +m[2] != 1)) break
+        let contentIndent = emptyItem || space > 4 ? after + 1 : after + space
+        let bullet = ordered ? m[3] : m[1]
+        let listType = ordered ? "ordered_list" : "bullet_list"
+        let list = container.isList ? container : null
+        if (!list || list.type != listType || list.bullet != bullet) {
+          list = startBlock(listType)
+          list.bullet = bullet
+          if (ordered) list.start = +m[2]
+        }
+        closeUnmatched()
+        container = this.add(list, new MdBlock("list_item", this.line))
+        container.indent = contentIndent
+        this.touch(container)
+        pos += Math.min(contentIndent, line.length - pos)
+      } else {
+        break
+      }
+    }
+
+    // Add the rest of the line to the innermost block
+    let rest = textFrom(raw, pos), blank = isBlank(rest), tip = this.tip()
+    if (!unmatchedClosed && tip != container && tip.type == "paragraph" && !blank) {
+      tip.lines.push(rest.replace(/^[ \t]+/, ""))
+      this.touch(tip)
+      return
+    }
+    closeUnmatched()
+    if (container.type == "code_block" || container.type == "html") {
+      container.lines.push(rest)
+      if (!blank || container.fence || container.htmlEnd) this.touch(container)
+      if (container.htmlEnd && container.htmlEnd.test(rest)) this.close(container)
+    } else if (container.type == "paragraph") {
+      container.lines.push(rest.replace(/^[ \t]+/, ""))
+      this.touch(container)
+    } else if (!blank) {
+      let para = this.add(container, new MdBlock("paragraph", this.line))
+      para.lines.push(rest.replace(/^[ \t]+/, ""))
+      this.touch(para)
+    }
+  }
+
+  finish() {
+    this.close(this.doc)
+    return this
+  }
+}
+
+function readBlocks(text: string): BlockReader {
+  let reader = new BlockReader
+  let lines = text.split(/\r\n?|\n/)
+  if (lines.length > 1 && !lines[lines.length - 1]) lines.pop()
+  for (let i = 0; i < lines.length; i++) {
+    reader.line = i
+    reader.readLine(lines[i].replace(/\0/g, "�"))
+  }
+  return reader.finish()
+}
+
+// Link helpers
+
+const escapable = /\\([!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~])/g
+
+function unescapeString(text: string) {
+  return decodeEntities(text.replace(escapable, "$1"), false)
+}
+
+function normalizeLabel(label: string) {
+  return label.trim().replace(/\s+/g, " ").toLowerCase().toUpperCase()
+}
+
+// Read a link destination and optional title, starting at `pos`.
+// Returns the position after the title.
+function readLinkTarget(text: string, pos: number, inDefinition: boolean, withTitle = true) {
+  let href, m
+  if (text.charAt(pos) == "<") {
+    if (!(m = /^<((?:[^\n<>\\]|\\.)*)>/.exec(text.slice(pos)))) return null
+    href = m[1]
+    pos += m[0].length
+  } else {
+    let depth = 0, start = pos
+    for (; pos < text.length; pos++) {
+      let ch = text.charAt(pos)
+      if (ch == "\\" && pos + 1 < text.length && /[!-\/:-@\[-`{-~]/.test(text.charAt(pos + 1))) pos++
+      else if (ch == "(") depth++
+      else if (ch == ")") { if (!depth) break; depth-- }
+      else if (/[\s\x00-\x1f]/.test(ch)) break
+    }
+    if (pos == start && !inDefinition) { href = "" }
+    else if (pos == start || depth) return null
+    else href = text.slice(start, pos)
+  }
+  let title: string | null = null, space = /^[ \t]*\n?[ \t]*/.exec(text.slice(pos))![0]
+  if (withTitle && space && (m = /^(?:"((?:[^"\\]|\\[^])*)"|'((?:[^'\\]|\\[^])*)'|\(((?:[^()\\]|\\[^])*)\))/.exec(text.slice(pos + space.length)))) {
+    title = unescapeString(m[1] != null ? m[1] : m[2] != null ? m[2] : m[3])
+    pos += space.length + m[0].length
+  }
+  return {href: unescapeString(href), title, end: pos}
+}
+
+function readLinkDefinition(text: string) {
+  let m = /^\[((?:[^\\\[\]]|\\[^]){1,999})\]:[ \t]*\n?[ \t]*/.exec(text)
+  if (!m || !m[1].trim()) return null
+  // When the title is followed by other text on its line, it isn't
+  // part of the definition, but the destination may still be.
+  for (let withTitle of [true, false]) {
+    let target = readLinkTarget(text, m[0].length, true, withTitle)
+    if (!target) return null
+    let end = /^[ \t]*(\n|$)/.exec(text.slice(target.end))
+    if (end) return {label: m[1], href: target.href, title: target.title, length: target.end + end[0].length}
+    if (target.title == null) return null
+  }
+  return null
+}
+
+// Inline content
+
+type TextItem = {type: "text", text: string, delim?: Delim, bracket?: Bracket}
+type Inline = TextItem |
+  {type: "code", text: string} | {type: "html_inline", text: string} | {type: "hard_break", text: string} |
+  {type: "em", content: Inline[], depth: number} | {type: "strong", content: Inline[], depth: number} |
+  {type: "link", href: string, title: string | null, content: Inline[], depth: number} |
+  {type: "image", href: string, title: string | null, content: Inline[], depth: number}
+type Delim = {char: string, count: number, length: number, canOpen: boolean, canClose: boolean}
+// `index` is the bracket's position in the item list, and `links`
+// the number of links that had been parsed when it was opened (a
+// link opener is inactive when links were parsed after it).
+type Bracket = {image: boolean, start: number, index: number, links: number}
+
+function inlineDepth(item: Inline) {
+  return "depth" in item ? item.depth : 0
+}
+
+function plainText(items: readonly Inline[]): string {
+  return items.map(item => "content" in item ? plainText(item.content) : item.text).join("")
+}
+
+export const punctuation = /[!-\/:-@\[-`{-~¡-¿‐-‧‰-⁞　-〿]/
+
+function isSpace(ch: string) { return !ch || /\s/.test(ch) }
+
+// Resolve emphasis delimiters. Items are moved onto a stack, on
+// which closers look for a matching opener. As in the CommonMark
+// reference algorithm, the position below which a search for a given
+// kind of closer failed is remembered, so that it isn't repeated.
+function processEmphasis(items: readonly Inline[]): Inline[] {
+  let stack: Inline[] = [], bottom: {[kind: string]: number} = Object.create(null)
+  for (let item of items) {
+    let closer = item as TextItem, cd = closer.delim
+    if (closer.type != "text" || !cd || !cd.canClose) { stack.push(item); continue }
+    let kind = cd.char + (cd.canOpen ? "+" : "-") + cd.length % 3
+    for (;;) {
+      let found = -1, depth = 0
+      for (let j = stack.length - 1, floor = bottom[kind] || 0; j >= floor; j--) {
+        let opener = stack[j] as TextItem, od = opener.delim
+        if (opener.type != "text" || !od || !od.canOpen || od.char != cd.char) continue
+        if ((od.canClose || cd.canOpen) && (od.length + cd.length) % 3 == 0 && (od.length % 3 || cd.length % 3)) continue
+        found = j
+        break
+      }
+      if (found > -1) for (let j = found + 1; j < stack.length; j++) depth = Math.max(depth, inlineDepth(stack[j]))
+      // Emphasis that would be nested too deeply is left as text,
+      // like any opener further down would be
+      if (found < 0 || depth >= maxNesting) {
+        bottom[kind] = stack.length
+        if (!cd.canOpen) closer.delim = undefined
+        stack.push(closer)
+        break
+      }
+      let opener = stack[found] as TextItem, od = opener.delim!
+      let use = od.count >= 2 && cd.count >= 2 ? 2 : 1
+      od.count -= use; cd.count -= use
+      opener.text = od.char.repeat(od.count)
+      closer.text = cd.char.repeat(cd.count)
+      let content = stack.splice(found + 1)
+      for (let inner of content) if (inner.type == "text") inner.delim = undefined
+      if (!od.count) stack.pop()
+      for (let k in bottom) bottom[k] = Math.min(bottom[k], stack.length)
+      stack.push({type: use == 2 ? "strong" : "em", content, depth: depth + 1})
+      if (!cd.count) break
+    }
+  }
+  for (let item of stack) if (item.type == "text") { item.delim = undefined; item.bracket = undefined }
+  return stack
+}
+
+function parseInline(text: string, refs: LinkRefs): Inline[] {
+  let items: Inline[] = [], brackets: TextItem[] = [], buffer = "", links = 0
+  let flush = () => {
+    if (buffer) items.push({type: "text", text: buffer})
+    buffer = ""
+  }
+  let pos = 0
+  while (pos < text.length) {
+    let ch = text.charAt(pos), m
+    if (ch == "\\") {
+      let next = text.charAt(pos + 1)
+      if (next == "\n") {
+        flush()
+        items.push({type: "hard_break", text: "\n"})
+        pos += 2
+        while (text.charAt(pos) == " ") pos++
+      } else if (next && /[!-\/:-@\[-`{-~]/.test(next)) {
+        buffer += next
+        pos += 2
+      } else {
+        buffer += ch
+        pos++
+      }
+    } else if (ch == "`") {
+      let open = /^`+/.exec(text.slice(pos))![0], end = -1, runs = /`+/g
+      runs.lastIndex = pos + open.length
+      for (let run; run = runs.exec(text);) if (run[0].length == open.length) { end = run.index; break }
+      if (end < 0) {
+        buffer += open
+        pos += open.length
+      } else {
+        flush()
+        let code = text.slice(pos + open.length, end).replace(/\n/g, " ")
+        if (/^ [^]*[^ ][^]* $/.test(code)) code = code.slice(1, code.length - 1)
+        items.push({type: "code", text: code})
+        pos = end + open.length
+      }
+    } else if (ch == "*" || ch == "_") {
+      flush()
+      let run = ch == "*" ? /^\*+/.exec(text.slice(pos))![0] : /^_+/.exec(text.slice(pos))![0]
+      let before = pos ? text.charAt(pos - 1) : "", after = text.charAt(pos + run.length)
+      let left = !isSpace(after) && (!punctuation.test(after) || isSpace(before) || punctuation.test(before))
+      let right = !isSpace(before) && (!punctuation.test(before) || isSpace(after) || punctuation.test(after))
+      let canOpen = ch == "*" ? left : left && (!right || punctuation.test(before))
+      let canClose = ch == "*" ? right : right && (!left || punctuation.test(after))
+      items.push({type: "text", text: run, delim: {char: ch, count: run.length, length: run.length, canOpen, canClose}})
+      pos += run.length
+    } else if (ch == "[" || ch == "!" && text.charAt(pos + 1) == "[") {
+      flush()
+      let image = ch == "!", item: TextItem = {type: "text", text: image ? "![" : "["}
+      pos += item.text.length
+      item.bracket = {image, start: pos, index: items.length, links}
+      items.push(item)
+      brackets.push(item)
+    } else if (ch == "]") {
+      flush()
+      let opener = brackets.pop(), link = null, end = pos + 1
+      if (opener && (opener.bracket!.image || opener.bracket!.links == links)) {
+        let label = text.slice(opener.bracket!.start, pos)
+        if (text.charAt(end) == "(") {
+          let start = end + 1 + /^[ \t\n]*/.exec(text.slice(end + 1))![0].length
+          let target = readLinkTarget(text, start, false), close
+          if (target && (close = /^[ \t\n]*\)/.exec(text.slice(target.end)))) {
+            link = {href: target.href, title: target.title}
+            end = target.end + close[0].length
+          }
+        }
+        if (!link) {
+          let ref = /^\[((?:[^\\\[\]]|\\[^]){0,999})\]/.exec(text.slice(end)), refLabel = label
+          if (ref && ref[1].trim()) refLabel = ref[1]
+          // Labels are at most 999 characters long
+          let found = refLabel.length < 1000 && refs[normalizeLabel(refLabel)]
+          if (found && refLabel.trim()) {
+            link = found
+            if (ref) end += ref[0].length
+          }
+        }
+      }
+      if (!link || !opener) {
+        buffer += "]"
+        pos++
+        continue
+      }
+      let {index, image} = opener.bracket!, content = processEmphasis(items.slice(index + 1)), depth = 0
+      for (let item of content) depth = Math.max(depth, inlineDepth(item))
+      items.length = index + 1
+      if (depth >= maxNesting) {
+        // Too deeply nested, so this bracket and the ones around it
+        // are left as text
+        for (let item of content) items.push(item)
+        brackets.length = 0
+        buffer += "]"
+        pos++
+        continue
+      }
+      items[index] = {type: image ? "image" : "link", href: link.href, title: link.title, content, depth: depth + 1}
+      if (!image) links++
+      pos = end
+    } else if (ch == "<" && (m = /^<([a-zA-Z][a-zA-Z0-9+.-]{1,31}:[^\s<>\x00-\x1f]*)>/.exec(text.slice(pos)) ||
+                             /^<([a-zA-Z0-9.!#$%&'*+\/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*)>/.exec(text.slice(pos)))) {
+      flush()
+      let href = m[1].indexOf(":") < 0 ? "mailto:" + m[1] : m[1]
+      items.push({type: "link", href, title: null, content: [{type: "text", text: m[1]}], depth: 1})
+      pos += m[0].length
+    } else if (ch == "<" && (m = /^(?:<[a-zA-Z][a-zA-Z0-9-]*(?:\s+[a-zA-Z_:][\w.:-]*(?:\s*=\s*(?:[^\s"'=<>`]+|'[^']*'|"[^"]*"))?)*\s*\/?>|<\/[a-zA-Z][a-zA-Z0-9-]*\s*>|<!--[^]*?-->)/.exec(text.slice(pos)))) {
+      flush()
+      items.push({type: "html_inline", text: m[0]})
+      pos += m[0].length
+    } else if (ch == "&" && (m = /^&(?:#[xX][\da-fA-F]{1,6}|#\d{1,7}|[a-zA-Z][a-zA-Z\d]{1,31});/.exec(text.slice(pos)))) {
+      buffer += decodeEntities(m[0], false)
+      pos += m[0].length
+    } else if (ch == "\n") {
+      let spaces = /( *)$/.exec(buffer)![1].length
+      buffer = buffer.slice(0, buffer.length - spaces)
+      if (spaces >= 2) {
+        flush()
+        items.push({type: "hard_break", text: "\n"})
+      } else {
+        buffer += " "
+      }
+      pos++
+      while (text.charAt(pos) == " ") pos++
+    } else {
+      buffer += ch
+      pos++
+    }
+  }
+  flush()
+  return processEmphasis(items)
+}
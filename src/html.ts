@@ -0,0 +1,593 @@
+import {DOMNode, DOMTreeNode} from "./dom"
+
+// A minimal stand-in for the parts of the DOM that the serializer and
+// parser use. `HTMLNode` objects form a tree that can be printed as
+// HTML or read from an HTML string, so that documents can be
+// converted to and from HTML in environments that don't have a DOM
+// implementation.
+
+const XHTML = "http://www.w3.org/1999/xhtml", SVG = "http://www.w3.org/2000/svg",
+  MATHML = "http://www.w3.org/1998/Math/MathML"
+
+const voidElements: {[name: string]: boolean} = {
+  area: true, base: true, br: true, col: true, embed: true, hr: true, img: true, input: true,
+  link: true, meta: true, param: true, source: true, track: true, wbr: true
+}
+
+const rawTextElements: {[name: string]: boolean} = {
+  script: true, style: true, xmp: true, iframe: true, noembed: true, noframes: true, plaintext: true
+}
+
+function escapeText(text: string) {
+  return text.replace(/[&<>\u00a0]/g, ch => ch == "&" ? "&amp;" : ch == "<" ? "&lt;" : ch == ">" ? "&gt;" : "&nbsp;")
+}
+
+function escapeAttr(value: string) {
+  return value.replace(/[&"\u00a0]/g, ch => ch == "&" ? "&amp;" : ch == '"' ? "&quot;" : "&nbsp;")
+}
+
+export class HTMLNode implements DOMTreeNode {
+  childNodes: HTMLNode[] = []
+  attributes: {name: string, value: string}[] = []
+  parentNode: HTMLNode | null = null
+  previousSibling: HTMLNode | null = null
+  nextSibling: HTMLNode | null = null
+
+  constructor(
+    readonly nodeType: number,
+    // Lower-cased for HTML elements, as given for other namespaces.
+    readonly localName: string = "",
+    readonly namespaceURI: string | null = null,
+    public nodeValue: string | null = null
+  ) {}
+
+  get nodeName() {
+    return this.nodeType == 1 ? (this.isHTML ? this.localName.toUpperCase() : this.localName)
+      : this.nodeType == 3 ? "#text" : this.nodeType == 8 ? "#comment" : "#document-fragment"
+  }
+
+  get tagName() { return this.nodeName }
+
+  get isHTML() { return this.namespaceURI == null || this.namespaceURI == XHTML }
+
+  get ownerDocument() { return htmlDocument }
+
+  get firstChild() { return this.childNodes[0] || null }
+
+  get lastChild() { return this.childNodes[this.childNodes.length - 1] || null }
+
+  get children() { return this.childNodes.filter(n => n.nodeType == 1) }
+
+  get textContent(): string {
+    if (this.nodeType == 3 || this.nodeType == 8) return this.nodeValue!
+    let result = ""
+    for (let child of this.childNodes) if (child.nodeType != 8) result += child.textContent
+    return result
+  }
+
+  appendChild<T extends HTMLNode | DOMNode>(child: T): T {
+    return this.insertBefore(child, null)
+  }
+
+  insertBefore<T extends HTMLNode | DOMNode>(child: T, before: HTMLNode | null): T {
+    let node = child as any as HTMLNode
+    if (node instanceof HTMLNode && node.parentNode) node.parentNode.removeChild(node)
+    let index = before ? this.childNodes.indexOf(before) : this.childNodes.length
+    if (index < 0) throw new RangeError("Reference node is not a child of this node")
+    // Actual DOM nodes (which may occur in output specs) are only
+    // stored, so that they can be serialized.
+    if (!(node instanceof HTMLNode)) {
+      this.childNodes.splice(index, 0, node)
+      return child
+    }
+    let prev = this.childNodes[index - 1] || null, next = before
+    this.childNodes.splice(index, 0, node)
+    node.parentNode = this
+    node.previousSibling = prev
+    node.nextSibling = next
+    if (prev) prev.nextSibling = node
+    if (next) next.previousSibling = node
+    return child
+  }
+
+  removeChild<T extends HTMLNode | DOMNode>(child: T): T {
+    let node = child as any as HTMLNode, index = this.childNodes.indexOf(node)
+    if (index < 0) throw new RangeError("Node is not a child of this node")
+    this.childNodes.splice(index, 1)
+    if (node.previousSibling) node.previousSibling.nextSibling = node.nextSibling
+    if (node.nextSibling) node.nextSibling.previousSibling = node.previousSibling
+    node.parentNode = node.previousSibling = node.nextSibling = null
+    return child
+  }
+
+  contains(other: HTMLNode | DOMNode | null) {
+    for (let cur = other as any as HTMLNode | null; cur; cur = cur.parentNode)
+      if (cur == this) return true
+    return false
+  }
+
+  // Only reports the disconnected (1), preceding (2), following (4),
+  // and containment (8 and 16) relations.
+  compareDocumentPosition(other: HTMLNode | DOMNode) {
+    let node = other as any as HTMLNode
+    if (node == this) return 0
+    if (this.contains(node)) return 20
+    if (node.contains(this)) return 10
+    let a = treePath(this), b = treePath(node)
+    for (let i = 0; i < a.length && i < b.length; i++) if (a[i] != b[i]) return a[i] < b[i] ? 4 : 2
+    return 1
+  }
+
+  getAttribute(name: string) {
+    if (this.isHTML) name = name.toLowerCase()
+    for (let attr of this.attributes) if (attr.name == name) return attr.value
+    return null
+  }
+
+  hasAttribute(name: string) {
+    return this.getAttribute(name) != null
+  }
+
+  setAttribute(name: string, value: any) {
+    value = String(value)
+    for (let attr of this.attributes) if (attr.name == name) { attr.value = value; return }
+    this.attributes.push({name, value})
+  }
+
+  setAttributeNS(_ns: string, name: string, value: any) {
+    this.setAttribute(name, value)
+  }
+
+  removeAttribute(name: string) {
+    this.attributes = this.attributes.filter(a => a.name != name)
+  }
+
+  get id() { return this.getAttribute("id") || "" }
+
+  get className() { return this.getAttribute("class") || "" }
+
+  // A read-only view of the inline styles, which can be accessed both
+  // with camel-cased property names and through `getPropertyValue`.
+  // Properties that aren't set read as the empty string.
+  get style(): {[prop: string]: any} {
+    let props: {[prop: string]: string} = Object.create(null), style = this.getAttribute("style") || ""
+    let re = /\s*([\w-]+)\s*:\s*([^;]+)/g, m
+    while (m = re.exec(style)) props[m[1].toLowerCase()] = m[2].trim()
+    let getPropertyValue = (name: string) => props[name] || ""
+    return new Proxy(props, {
+      get(_, prop) {
+        if (prop == "getPropertyValue") return getPropertyValue
+        if (prop == "cssText") return style
+        return typeof prop == "string" ? props[prop.replace(/[A-Z]/g, ch => "-" + ch.toLowerCase())] || "" : undefined
+      }
+    })
+  }
+
+  matches(selector: string) {
+    return this.nodeType == 1 && matchSelector(this, parseSelector(selector))
+  }
+
+  querySelector(selector: string): HTMLNode | null {
+    let parsed = parseSelector(selector)
+    let scan = (node: HTMLNode): HTMLNode | null => {
+      for (let child of node.childNodes) if (child.nodeType == 1) {
+        let found = matchSelector(child, parsed) ? child : scan(child)
+        if (found) return found
+      }
+      return null
+    }
+    return scan(this)
+  }
+
+  get innerHTML() {
+    let raw = this.nodeType == 1 && this.isHTML && rawTextElements[this.localName]
+    let result = ""
+    for (let child of this.childNodes) result += serializeHTML(child, raw)
+    // Raw text can't be escaped, so text that would end the element
+    // early can't be represented
+    if (raw && result.toLowerCase().indexOf("</" + this.localName) > -1)
+      throw new RangeError(`Raw text element ${this.localName} can not contain "</${this.localName}"`)
+    return result
+  }
+
+  get outerHTML() {
+    if (this.nodeType != 1) return serializeHTML(this)
+    let result = "<" + this.localName
+    for (let attr of this.attributes) result += " " + attr.name + '="' + escapeAttr(attr.value) + '"'
+    result += ">"
+    if (this.isHTML && voidElements[this.localName]) {
+      if (this.childNodes.length) throw new RangeError(`Void element ${this.localName} can not have content`)
+      return result
+    }
+    return result + this.innerHTML + "</" + this.localName + ">"
+  }
+}
+
+function treePath(node: HTMLNode) {
+  let path = []
+  for (; node.parentNode; node = node.parentNode) path.unshift(node.parentNode.childNodes.indexOf(node))
+  return path
+}
+
+export function serializeHTML(node: HTMLNode | DOMNode, raw = false): string {
+  if (node.nodeType == 3) return raw ? node.nodeValue! : escapeText(node.nodeValue!)
+  if (node.nodeType == 11) return (node as HTMLNode).innerHTML
+  if (node.nodeType == 8) return "<!--" + node.nodeValue + "-->"
+  let outer = (node as HTMLNode).outerHTML
+  if (typeof outer != "string") throw new RangeError("Can not serialize DOM node " + node.nodeName + " to HTML")
+  return outer
+}
+
+// Used in place of a document to make the serializer produce
+// `HTMLNode` objects.
+export const htmlDocument = {
+  createTextNode(text: string) { return new HTMLNode(3, "", null, text) },
+  createComment(text: string) { return new HTMLNode(8, "", null, text) },
+  createElement(name: string) { return new HTMLNode(1, name.toLowerCase()) },
+  createElementNS(ns: string, name: string) {
+    return new HTMLNode(1, ns == XHTML ? name.toLowerCase() : name, ns)
+  },
+  createDocumentFragment() { return new HTMLNode(11) }
+} as any as Document
+
+// Selectors
+
+type Compound = ((node: HTMLNode) => boolean)[]
+
+// A complex selector is stored as a sequence of compound selectors,
+// with `combinators[i]` describing the relation between compound `i`
+// and compound `i + 1`.
+type Complex = {compounds: Compound[], combinators: string[]}
+
+const selectorCache: {[selector: string]: Complex[]} = Object.create(null)
+
+const ident = /^-?[_a-zA-Z\u00a0-\uffff][\w\u00a0-\uffff-]*/
+
+// Supports type, class, id, and attribute selectors, the
+// `:first-child`, `:last-child`, `:only-child`, `:empty`, and
+// `:not(...)` pseudo-classes, and all combinators.
+function parseSelector(selector: string): Complex[] {
+  let cached = selectorCache[selector]
+  if (cached) return cached
+  let pos = 0, result: Complex[] = []
+  let fail = (): never => { throw new SyntaxError(`Unsupported or invalid selector '${selector}'`) }
+  let space = () => { let m = /^\s*/.exec(selector.slice(pos))!; pos += m[0].length; return m[0].length > 0 }
+  let name = () => {
+    let m = ident.exec(selector.slice(pos)) || fail()
+    pos += m[0].length
+    return m[0]
+  }
+  let compound = (): Compound => {
+    let tests: Compound = []
+    if (selector[pos] == "*") {
+      pos++
+    } else if (ident.test(selector.slice(pos))) {
+      let tag = name(), lower = tag.toLowerCase()
+      tests.push(n => (n.isHTML ? lower : tag) == n.localName)
+    }
+    for (;;) {
+      let next = selector[pos]
+      if (next == ".") {
+        pos++
+        let cls = name()
+        tests.push(n => n.className.split(/\s+/).indexOf(cls) > -1)
+      } else if (next == "#") {
+        pos++
+        let id = name()
+        tests.push(n => n.id == id)
+      } else if (next == "[") {
+        pos++
+        space()
+        let attr = name(), m
+        space()
+        if (m = /^([~|^$*]?)=\s*(?:"([^"]*)"|'([^']*)'|([^\s\]]+))\s*(i?)\s*\]/.exec(selector.slice(pos))) {
+          pos += m[0].length
+          let op = m[1], value = m[2] != null ? m[2] : m[3] != null ? m[3] : m[4], fold = !!m[5]
+          if (fold) value = value.toLowerCase()
+          tests.push(n => {
+            let found = n.getAttribute(attr)
+            if (found == null) return false
+            if (fold) found = found.toLowerCase()
+            return op == "" ? found == value
+              : op == "~" ? found.split(/\s+/).indexOf(value) > -1
+              : op == "|" ? found == value || found.slice(0, value.length + 1) == value + "-"
+              : op == "^" ? !!value && found.slice(0, value.length) == value
+              : op == "$" ? !!value && found.slice(found.length - value.length) == value
+              : !!value && found.indexOf(value) > -1
+          })
+        } else if (selector[pos] == "]") {
+          pos++
+          tests.push(n => n.hasAttribute(attr))
+        } else {
+          fail()
+        }
+      } else if (next == ":") {
+        pos++
+        let pseudo = name().toLowerCase()
+        if (pseudo == "not" && selector[pos] == "(") {
+          pos++
+          space()
+          let inner = compound()
+          space()
+          if (selector[pos++] != ")" || !inner.length) fail()
+          tests.push(n => !inner.every(t => t(n)))
+        } else if (pseudo == "first-child") {
+          tests.push(n => !prevElement(n))
+        } else if (pseudo == "last-child") {
+          tests.push(n => !nextElement(n))
+        } else if (pseudo == "only-child") {
+          tests.push(n => !prevElement(n) && !nextElement(n))
+        } else if (pseudo == "empty") {
+          tests.push(n => !n.childNodes.some(c => c.nodeType == 1 || c.nodeType == 3))
+        } else {
+          fail()
+        }
+      } else {
+        return tests
+      }
+    }
+  }
+  for (;;) {
+    let complex: Complex = {compounds: [], combinators: []}
+    space()
+    for (;;) {
+      let start = pos, c = compound()
+      if (pos == start) fail()
+      complex.compounds.push(c)
+      let sawSpace = space(), next = selector[pos]
+      if (next == ">" || next == "+" || next == "~") {
+        pos++
+        space()
+        complex.combinators.push(next)
+      } else if (sawSpace && next != null && next != ",") {
+        complex.combinators.push(" ")
+      } else {
+        break
+      }
+    }
+    result.push(complex)
+    if (pos == selector.length) break
+    if (selector[pos++] != ",") fail()
+  }
+  return selectorCache[selector] = result
+}
+
+function prevElement(node: HTMLNode) {
+  let prev = node.previousSibling
+  while (prev && prev.nodeType != 1) prev = prev.previousSibling
+  return prev
+}
+
+function nextElement(node: HTMLNode) {
+  let next = node.nextSibling
+  while (next && next.nodeType != 1) next = next.nextSibling
+  return next
+}
+
+function matchCompound(node: HTMLNode, complex: Complex, i: number): boolean {
+  if (!complex.compounds[i].every(test => test(node))) return false
+  if (i == 0) return true
+  let comb = complex.combinators[i - 1]
+  if (comb == ">") {
+    let parent = node.parentNode
+    return !!parent && parent.nodeType == 1 && matchCompound(parent, complex, i - 1)
+  } else if (comb == " ") {
+    for (let p = node.parentNode; p && p.nodeType == 1; p = p.parentNode)
+      if (matchCompound(p, complex, i - 1)) return true
+    return false
+  } else if (comb == "+") {
+    let prev = prevElement(node)
+    return !!prev && matchCompound(prev, complex, i - 1)
+  } else {
+    for (let prev = prevElement(node); prev; prev = prevElement(prev))
+      if (matchCompound(prev, complex, i - 1)) return true
+    return false
+  }
+}
+
+function matchSelector(node: HTMLNode, selector: Complex[]) {
+  return selector.some(complex => matchCompound(node, complex, complex.compounds.length - 1))
+}
+
+// Parsing
+
+const entities: {[name: string]: string} = {
+  amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: "\u00a0", shy: "\u00ad",
+  copy: "©", reg: "®", trade: "™", deg: "°", plusmn: "±", times: "×",
+  divide: "÷", micro: "µ", middot: "·", para: "¶", sect: "§", cent: "¢",
+  pound: "£", yen: "¥", euro: "€", curren: "¤", iexcl: "¡", iquest: "¿",
+  laquo: "«", raquo: "»", lsaquo: "‹", rsaquo: "›", lsquo: "‘", rsquo: "’",
+  sbquo: "‚", ldquo: "“", rdquo: "”", bdquo: "„", ndash: "–", mdash: "—",
+  hellip: "…", bull: "•", prime: "′", Prime: "″", dagger: "†", Dagger: "‡",
+  permil: "‰", ensp: "\u2002", emsp: "\u2003", thinsp: "\u2009", zwnj: "\u200c", zwj: "\u200d",
+  lrm: "\u200e", rlm: "\u200f", larr: "←", uarr: "↑", rarr: "→", darr: "↓",
+  harr: "↔", lArr: "⇐", rArr: "⇒", hArr: "⇔", minus: "−", le: "≤",
+  ge: "≥", ne: "≠", asymp: "≈", infin: "∞", sup1: "¹", sup2: "²",
+  sup3: "³", frac14: "¼", frac12: "½", frac34: "¾", ordf: "ª", ordm: "º",
+  not: "¬", macr: "¯", acute: "´", cedil: "¸", uml: "¨", brvbar: "¦",
+  hearts: "♥", spades: "♠", clubs: "♣", diams: "♦", loz: "◊", szlig: "ß",
+  Agrave: "À", Aacute: "Á", Acirc: "Â", Atilde: "Ã", Auml: "Ä", Aring: "Å",
+  AElig: "Æ", Ccedil: "Ç", Egrave: "È", Eacute: "É", Ecirc: "Ê", Euml: "Ë",
+  Igrave: "Ì", Iacute: "Í", Icirc: "Î", Iuml: "Ï", ETH: "Ð", Ntilde: "Ñ",
+  Ograve: "Ò", Oacute: "Ó", Ocirc: "Ô", Otilde: "Õ", Ouml: "Ö", Oslash: "Ø",
+  Ugrave: "Ù", Uacute: "Ú", Ucirc: "Û", Uuml: "Ü", Yacute: "Ý", THORN: "Þ",
+  agrave: "à", aacute: "á", acirc: "â", atilde: "ã", auml: "ä", aring: "å",
+  aelig: "æ", ccedil: "ç", egrave: "è", eacute: "é", ecirc: "ê", euml: "ë",
+  igrave: "ì", iacute: "í", icirc: "î", iuml: "ï", eth: "ð", ntilde: "ñ",
+  ograve: "ò", oacute: "ó", ocirc: "ô", otilde: "õ", ouml: "ö", oslash: "ø",
+  ugrave: "ù", uacute: "ú", ucirc: "û", uuml: "ü", yacute: "ý", thorn: "þ",
+  yuml: "ÿ", OElig: "Œ", oelig: "œ", Scaron: "Š", scaron: "š", Yuml: "Ÿ",
+  fnof: "ƒ", circ: "ˆ", tilde: "˜", alpha: "α", beta: "β", gamma: "γ",
+  delta: "δ", pi: "π", sigma: "σ", mu: "μ", lambda: "λ", omega: "ω"
+}
+
+// Entities that are recognized without a trailing semicolon.
+const legacyEntities = /^(amp|lt|gt|quot|nbsp|copy|reg)/
+
+// How the HTML spec remaps numeric references in the C1 control range.
+const c1Remap = "€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ"
+
+export function decodeEntities(text: string, inAttr: boolean) {
+  if (text.indexOf("&") < 0) return text
+  return text.replace(/&(?:#[xX]([\da-fA-F]+);?|#(\d+);?|([a-zA-Z][a-zA-Z\d]*)(;?))/g, (all, hex, dec, name, semi, offset, str) => {
+    if (name) {
+      if (semi && Object.prototype.hasOwnProperty.call(entities, name)) return entities[name]
+      let legacy = legacyEntities.exec(name)
+      // In attributes, legacy references followed by more name
+      // characters or an equals sign are left alone.
+      if (!legacy || inAttr && (semi || name.length > legacy[1].length || str.charAt(offset + all.length) == "="))
+        return all
+      return entities[legacy[1]] + name.slice(legacy[1].length) + semi
+    }
+    let code = hex ? parseInt(hex, 16) : parseInt(dec, 10)
+    if (code >= 0x80 && code < 0xa0) return c1Remap.charAt(code - 0x80)
+    if (!code || code > 0x10ffff || code >= 0xd800 && code < 0xe000) return "\ufffd"
+    return String.fromCodePoint(code)
+  })
+}
+
+// Elements whose start tag closes an open paragraph.
+const closesParagraph: {[name: string]: boolean} = {
+  address: true, article: true, aside: true, blockquote: true, center: true, details: true, dialog: true,
+  dir: true, div: true, dl: true, dd: true, dt: true, fieldset: true, figcaption: true, figure: true,
+  footer: true, form: true, h1: true, h2: true, h3: true, h4: true, h5: true, h6: true, header: true,
+  hgroup: true, hr: true, li: true, listing: true, main: true, menu: true, nav: true, ol: true, p: true,
+  plaintext: true, pre: true, section: true, summary: true, table: true, ul: true, xmp: true
+}
+
+// Elements that stop the search for an open element that a start
+// tag implicitly closes.
+const scopeBoundaries: {[name: string]: boolean} = {
+  applet: true, button: true, caption: true, marquee: true, object: true, table: true,
+  td: true, template: true, th: true
+}
+
+const headings: {[name: string]: boolean} = {h1: true, h2: true, h3: true, h4: true, h5: true, h6: true}
+
+// Start tags that implicitly close an open element of one of the
+// given types, as long as no element of a boundary type is found
+// first.
+const impliedEnd: {[name: string]: {close: string[], boundary: string[]}} = {
+  li: {close: ["li"], boundary: ["ul", "ol"]},
+  dd: {close: ["dd", "dt"], boundary: ["dl"]},
+  dt: {close: ["dd", "dt"], boundary: ["dl"]},
+  tr: {close: ["tr"], boundary: ["table", "thead", "tbody", "tfoot"]},
+  td: {close: ["td", "th"], boundary: ["tr"]},
+  th: {close: ["td", "th"], boundary: ["tr"]},
+  thead: {close: ["thead", "tbody", "tfoot"], boundary: []},
+  tbody: {close: ["thead", "tbody", "tfoot"], boundary: []},
+  tfoot: {close: ["thead", "tbody", "tfoot"], boundary: []},
+  option: {close: ["option"], boundary: ["select", "datalist"]},
+  optgroup: {close: ["option", "optgroup"], boundary: ["select"]}
+}
+
+const rawText = /^(script|style|xmp|iframe|noembed|noframes|textarea|title|plaintext)$/
+
+// Parse an HTML string into a tree of `HTMLNode` objects, held by a
+// `div` element. This follows the structure of the HTML spec's
+// fragment parsing algorithm, but only implements its most common
+// error recovery rules (implied end tags, void elements, raw text
+// elements, and ignored `html`/`head`/`body` tags).
+export function readHTML(html: string): HTMLNode {
+  let root = new HTMLNode(1, "div"), stack = [root]
+  html = html.replace(/\r\n?/g, "\n")
+  let cur = () => stack[stack.length - 1]
+
+  let addText = (text: string) => {
+    if (!text) return
+    let parent = cur(), last = parent.lastChild
+    if (last && last.nodeType == 3) last.nodeValue += text
+    else parent.appendChild(new HTMLNode(3, "", null, text))
+  }
+  // Find the innermost open element with one of the given names, as
+  // long as it isn't hidden behind a boundary element.
+  let findOpen = (names: readonly string[], boundary: readonly string[]) => {
+    for (let i = stack.length - 1; i > 0; i--) {
+      let name = stack[i].localName
+      if (names.indexOf(name) > -1) return i
+      if (boundary.indexOf(name) > -1 || scopeBoundaries[name]) return -1
+    }
+    return -1
+  }
+
+  let pos = 0
+  while (pos < html.length) {
+    let lt = html.indexOf("<", pos)
+    if (lt < 0) lt = html.length
+    if (lt > pos) addText(decodeEntities(html.slice(pos, lt), false))
+    pos = lt
+    if (pos == html.length) break
+    let rest = html.slice(pos), m
+    if (rest.slice(0, 4) == "<!--") {
+      let end = html.indexOf("-->", pos + 4)
+      if (end < 0) end = html.length
+      cur().appendChild(new HTMLNode(8, "", null, html.slice(pos + 4, end)))
+      pos = end + 3
+    } else if (/^<[!?]/.test(rest)) {
+      let end = html.indexOf(">", pos)
+      pos = end < 0 ? html.length : end + 1
+    } else if (m = /^<\/([a-zA-Z][^\s\/>]*)[^>]*(>?)/.exec(rest)) {
+      pos += m[0].length
+      if (!m[2]) break // Unfinished tag at end of input
+      let name = m[1].toLowerCase()
+      if (name == "br") {
+        cur().appendChild(new HTMLNode(1, "br"))
+        continue
+      }
+      let found = -1
+      for (let i = stack.length - 1; i > 0; i--) if (stack[i].localName.toLowerCase() == name) { found = i; break }
+      if (found > -1) stack.length = found
+      else if (name == "p") cur().appendChild(new HTMLNode(1, "p"))
+    } else if (m = /^<([a-zA-Z][^\s\/>]*)/.exec(rest)) {
+      pos += m[0].length
+      let attrs: {name: string, value: string}[] = [], closed = false
+      for (;;) {
+        let a = /^[\s\/]*(?:(>)|([^\s\/>][^\s\/>=]*)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]*)))?)/.exec(html.slice(pos))
+        if (!a) break
+        pos += a[0].length
+        if (a[1]) { closed = true; break }
+        let value = a[3] != null ? a[3] : a[4] != null ? a[4] : a[5] != null ? a[5] : ""
+        if (!attrs.some(at => at.name == a![2])) attrs.push({name: a[2], value: decodeEntities(value, true)})
+      }
+      if (!closed) break // Unfinished tag at end of input
+      let selfClosing = html.charAt(pos - 2) == "/"
+      let tag = m[1], name = tag.toLowerCase()
+      if (name == "html" || name == "head" || name == "body") continue
+      let parent = cur()
+      let ns = name == "svg" ? SVG : name == "math" ? MATHML : parent.isHTML ? null : parent.namespaceURI
+      if (ns == null) {
+        if (closesParagraph[name]) {
+          let p = findOpen(["p"], [])
+          if (p > -1) stack.length = p
+        }
+        if (headings[name] && headings[cur().localName]) stack.pop()
+        let implied = impliedEnd[name]
+        if (implied) {
+          let found = findOpen(implied.close, implied.boundary)
+          if (found > -1) stack.length = found
+        }
+      }
+      let elt = new HTMLNode(1, ns == null || ns != parent.namespaceURI ? name : tag, ns)
+      for (let attr of attrs) elt.attributes.push(ns == null ? {name: attr.name.toLowerCase(), value: attr.value} : attr)
+      cur().appendChild(elt)
+      if (ns == null ? voidElements[name] : selfClosing) continue
+      if (ns == null && rawText.test(name)) {
+        let close = name == "plaintext" ? -1 : html.slice(pos).search(new RegExp("</" + name + "[\\s/>]", "i"))
+        let end = close < 0 ? html.length : pos + close
+        let text = html.slice(pos, end)
+        if (name == "textarea" && text.charAt(0) == "\n") text = text.slice(1)
+        if (name == "textarea" || name == "title") text = decodeEntities(text, false)
+        if (text) elt.appendChild(new HTMLNode(3, "", null, text))
+        let gt = html.indexOf(">", end)
+        pos = close < 0 || gt < 0 ? html.length : gt + 1
+        continue
+      }
+      stack.push(elt)
+      if ((name == "pre" || name == "listing") && html.charAt(pos) == "\n") pos++
+    } else {
+      addText("<")
+      pos++
+    }
+  }
+  return root
+}
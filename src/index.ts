@@ -1,11 +1,27 @@
 export {Node} from "./node"
 export {ResolvedPos, NodeRange} from "./resolvedpos"
+export {TextUnit} from "./segment"
 export {Fragment} from "./fragment"
+export {TreeChange} from "./diff"
+export {MergeConflict, MergeResult} from "./merge"
+export {RepairChange, RepairResult} from "./repair"
+export {ValidationIssue} from "./validate"
+export {TextExport, TextExportOptions, TextIndex} from "./text"
+export {SearchMatch, SearchOptions} from "./search"
 export {Slice, ReplaceError} from "./replace"
 export {Mark} from "./mark"
 
-export {Schema, NodeType, Attrs, MarkType, NodeSpec, MarkSpec, AttributeSpec, SchemaSpec} from "./schema"
+export {Schema, NodeType, Attrs, MarkType, NodeSpec, MarkSpec, AttributeSpec, SchemaSpec, SchemaExtension,
+        AttrValue, AttrsOf, NodeAttrsOf, MarkAttrsOf, TypedNode, TypedMark} from "./schema"
+export {DeclarationOptions} from "./typegen"
 export {ContentMatch} from "./content"
+export {SchemaChange, DocumentProblem} from "./compat"
+export {Migrations, MigrationStep} from "./migrate"
 
-export {DOMParser, ParseRule, ParseOptions} from "./from_dom"
+export {DOMParser, ParseRule, ParseOptions, ParseTrace, ParseTraceEntry, ParseLoss,
+        SanitizePolicy, SanitizeViolation} from "./from_dom"
+export {normalizeWordHTML, normalizeGoogleDocsHTML} from "./paste"
 export {DOMSerializer, DOMOutputSpec} from "./to_dom"
+
+export {MarkdownParser, MarkdownParseRule, MarkdownToken} from "./from_markdown"
+export {MarkdownSerializer, MarkdownSerializerState, MarkdownNodeSerializer, MarkdownMarkSpec} from "./to_markdown"
@@ -82,7 +82,9 @@ export class Mark {
     if (!json) throw new RangeError("Invalid input for Mark.fromJSON")
     let type = schema.marks[json.type]
     if (!type) throw new RangeError(`There is no mark type ${json.type} in this schema`)
-    return type.create(json.attrs)
+    let mark = type.create(json.attrs)
+    type.checkAttrs(mark.attrs)
+    return mark
   }
 
   /// Test whether two sets of marks are identical.
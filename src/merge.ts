@@ -0,0 +1,231 @@
+import {Fragment} from "./fragment"
+import {Node} from "./node"
+import {Mark} from "./mark"
+import {Attrs, NodeType} from "./schema"
+import {compareDeep} from "./comparedeep"
+import {Tokens, commonSubsequence, sameToken, similarToken} from "./diff"
+
+/// Describes a region where the two documents passed to
+/// [`Node.merge`](#model.Node.merge) made incompatible changes. The
+/// merged document holds the first document's version of the region.
+export interface MergeConflict {
+  /// The start of the region in the merged document.
+  from: number
+  /// The end of the region in the merged document.
+  to: number
+  /// The region's content in the common ancestor document.
+  base: Fragment
+  /// The region's content in the first document, which is what the
+  /// merged document contains.
+  a: Fragment
+  /// The region's content in the second document.
+  b: Fragment
+}
+
+/// The result of a [three-way merge](#model.Node.merge).
+export interface MergeResult {
+  /// The merged document.
+  doc: Node
+  /// The conflicts found during the merge, in document order.
+  conflicts: MergeConflict[]
+}
+
+type TokenEq = (tokA: Tokens, i: number, tokB: Tokens, j: number) => boolean
+
+function sameTokens(tokA: Tokens, fromA: number, toA: number, tokB: Tokens, fromB: number, toB: number) {
+  if (toA - fromA != toB - fromB) return false
+  for (let i = fromA, j = fromB; i < toA; i++, j++) if (!sameToken(tokA, i, tokB, j)) return false
+  return true
+}
+
+function cutTokens(tok: Tokens, fragment: Fragment, from: number, to: number) {
+  return fragment.cut(tok.pos(from), tok.pos(to))
+}
+
+// Pick the value of a property from a three-way merge, returning
+// `undefined` when both sides changed it in different ways.
+function pick<T>(base: T, a: T, b: T, eq: (a: T, b: T) => boolean): T | undefined {
+  if (eq(a, base) || eq(a, b)) return b
+  if (eq(b, base)) return a
+  return undefined
+}
+
+function mergeAttrs(type: NodeType, base: Attrs, a: Attrs, b: Attrs): Attrs | null {
+  if (compareDeep(a, base)) return b
+  if (compareDeep(b, base)) return a
+  let result: {[name: string]: any} = {}
+  for (let name in type.attrs) {
+    let value = pick(base[name], a[name], b[name], compareDeep)
+    if (value === undefined) return null
+    result[name] = value
+  }
+  return result
+}
+
+// Align a range of base tokens with a range of tokens from one of
+// the changed documents. Returns an array that maps each base token
+// (relative to `from`) to the index of the token it aligns with, or
+// -1. When `anchors` (a map over the whole base sequence) is given,
+// its pairs that fall inside the ranges are kept, and only the gaps between them are aligned
+// with `eq`.
+function align(base: Tokens, side: Tokens, from: number, to: number, fromS: number, toS: number,
+               eq: TokenEq, anchors: Int32Array | null = null) {
+  let map = new Int32Array(to - from).fill(-1)
+  for (let i = from, j = fromS;;) {
+    let next = i
+    if (anchors) while (next < to && anchors[next] < 0) next++
+    else next = to
+    let nextS = next < to ? anchors![next] : toS
+    let pairs = commonSubsequence(i, next, j, nextS, (i, j) => eq(base, i, side, j))
+    for (let p = 0; p < pairs.length; p += 2) map[pairs[p] - from] = pairs[p + 1]
+    if (next == to) return map
+    map[next - from] = nextS
+    i = next + 1; j = nextS + 1
+  }
+}
+
+// Walk through three aligned token ranges, calling `stable` for runs
+// that line up in all three, and `unstable` for the regions between
+// those.
+function diff3(from: number, to: number, fromA: number, toA: number, fromB: number, toB: number,
+               mapA: Int32Array, mapB: Int32Array,
+               stable: (i: number, j: number, k: number, len: number) => void,
+               unstable: (from: number, to: number, fromA: number, toA: number, fromB: number, toB: number) => void) {
+  for (let i = from, j = fromA, k = fromB;;) {
+    let len = 0
+    while (i + len < to && mapA[i + len - from] == j + len && mapB[i + len - from] == k + len) len++
+    if (len) {
+      stable(i, j, k, len)
+      i += len; j += len; k += len
+    }
+    if (i == to && j == toA && k == toB) break
+    let next = i
+    while (next < to && (mapA[next - from] < 0 || mapB[next - from] < 0)) next++
+    let nextA = next < to ? mapA[next - from] : toA, nextB = next < to ? mapB[next - from] : toB
+    unstable(i, next, j, nextA, k, nextB)
+    i = next; j = nextA; k = nextB
+  }
+}
+
+class Merge {
+  conflicts: MergeConflict[] = []
+
+  conflict(conflict: MergeConflict, at = this.conflicts.length) {
+    let last = at == this.conflicts.length ? this.conflicts[at - 1] : null
+    if (last && last.to == conflict.from) {
+      last.to = conflict.to
+      last.base = last.base.append(conflict.base)
+      last.a = last.a.append(conflict.a)
+      last.b = last.b.append(conflict.b)
+    } else {
+      this.conflicts.splice(at, 0, conflict)
+    }
+  }
+
+  // Merge a node that has the same type in all three documents.
+  // `pos` is the position at which the node starts in the output, and
+  // may be -1 for the top node.
+  node(base: Node, a: Node, b: Node, pos: number): Node {
+    let start = this.conflicts.length
+    let attrs = mergeAttrs(a.type, base.attrs, a.attrs, b.attrs)
+    let marks = pick(base.marks, a.marks, b.marks, Mark.sameSet)
+    let content = this.content(a.type, base.content, a.content, b.content, pos + 1)
+    if (!content) {
+      this.conflicts.length = start
+      this.conflict({from: pos + 1, to: pos + 1 + a.content.size, base: base.content, a: a.content, b: b.content})
+      content = a.content
+    }
+    let node = a.type.create(attrs || a.attrs, content, marks || a.marks)
+    if (!attrs || !marks) {
+      // The top node can't be covered by a range, so use its content instead.
+      this.conflict(pos < 0 ? {from: 0, to: content.size, base: base.content, a: a.content, b: b.content}
+                    : {from: pos, to: pos + node.nodeSize, base: Fragment.from(base), a: Fragment.from(a), b: Fragment.from(b)}, start)
+    }
+    return node
+  }
+
+  // Merge the content of a node, returning null when no merge that
+  // is valid for the node type could be found.
+  content(type: NodeType, base: Fragment, a: Fragment, b: Fragment, pos: number): Fragment | null {
+    let content = base.eq(a) ? b : base.eq(b) ? a : this.fragment(base, a, b, pos)
+    if (type.validContent(content)) return content
+    // Try to complete content that stops short of the content
+    // expression, for example when both sides deleted a different
+    // required node.
+    let match = type.contentMatch.matchFragment(content)
+    let fill = match && match.fillBefore(Fragment.empty, true)
+    if (fill && fill.size) {
+      content = content.append(fill)
+      if (type.validContent(content)) return content
+    }
+    return null
+  }
+
+  fragment(base: Fragment, a: Fragment, b: Fragment, pos: number): Fragment {
+    let tok = new Tokens(base), tokA = new Tokens(a), tokB = new Tokens(b)
+    let sameA = align(tok, tokA, 0, tok.length, 0, tokA.length, sameToken)
+    let sameB = align(tok, tokB, 0, tok.length, 0, tokB.length, sameToken)
+    let out: Node[] = [], size = 0
+    let add = (fragment: Fragment) => {
+      fragment.forEach(node => out.push(node))
+      size += fragment.size
+    }
+    // Take one side's version of a region when the other side left it
+    // unchanged (or both made the same change).
+    let takeSide = (from: number, to: number, fromA: number, toA: number, fromB: number, toB: number) => {
+      if (sameTokens(tok, from, to, tokA, fromA, toA) || sameTokens(tokA, fromA, toA, tokB, fromB, toB))
+        add(cutTokens(tokB, b, fromB, toB))
+      else if (sameTokens(tok, from, to, tokB, fromB, toB))
+        add(cutTokens(tokA, a, fromA, toA))
+      else
+        return false
+      return true
+    }
+    // Regions where neither side can simply be taken are aligned again
+    // by similarity, so that changes inside nodes and to the marks of
+    // text can be merged.
+    let resolve = (from: number, to: number, fromA: number, toA: number, fromB: number, toB: number) => {
+      if (takeSide(from, to, fromA, toA, fromB, toB)) return
+      // Tokens that are unchanged in a side stay aligned.
+      let simA = align(tok, tokA, from, to, fromA, toA, similarToken, sameA)
+      let simB = align(tok, tokB, from, to, fromB, toB, similarToken, sameB)
+      diff3(from, to, fromA, toA, fromB, toB, simA, simB, (i, j, k, len) => {
+        for (let end = i + len; i < end; i++, j++, k++) {
+          let node = tok.nodes[i], nodeA = tokA.nodes[j], nodeB = tokB.nodes[k]
+          if (!node.isText) {
+            let merged = this.node(node, nodeA, nodeB, pos + size)
+            out.push(merged)
+            size += merged.nodeSize
+            continue
+          }
+          let marks = pick(node.marks, nodeA.marks, nodeB.marks, Mark.sameSet)
+          if (marks == nodeB.marks) {
+            add(cutTokens(tokB, b, k, k + 1))
+          } else {
+            let pieceA = cutTokens(tokA, a, j, j + 1)
+            if (!marks) this.conflict({from: pos + size, to: pos + size + 1, base: cutTokens(tok, base, i, i + 1),
+                                       a: pieceA, b: cutTokens(tokB, b, k, k + 1)})
+            add(pieceA)
+          }
+        }
+      }, (from, to, fromA, toA, fromB, toB) => {
+        if (takeSide(from, to, fromA, toA, fromB, toB)) return
+        let pieceA = cutTokens(tokA, a, fromA, toA)
+        this.conflict({from: pos + size, to: pos + size + pieceA.size, base: cutTokens(tok, base, from, to),
+                       a: pieceA, b: cutTokens(tokB, b, fromB, toB)})
+        add(pieceA)
+      })
+    }
+    diff3(0, tok.length, 0, tokA.length, 0, tokB.length, sameA, sameB,
+          (_i, j, _k, len) => add(cutTokens(tokA, a, j, j + len)), resolve)
+    return Fragment.fromArray(out)
+  }
+}
+
+export function mergeNodes(base: Node, a: Node, b: Node): MergeResult {
+  if (a.type != base.type || b.type != base.type)
+    throw new RangeError("Can only merge documents of the same type (" + base.type.name + ")")
+  let merge = new Merge
+  let doc = merge.node(base, a, b, -1)
+  return {doc, conflicts: merge.conflicts}
+}
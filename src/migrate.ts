@@ -0,0 +1,150 @@
+import {Node} from "./node"
+import {Schema} from "./schema"
+
+/// A migration step, used to [register](#model.Migrations.register)
+/// the changes between two versions of a schema. A step may
+/// transform the document's JSON representation, its node tree, or
+/// both (in which case the JSON transform runs first).
+export interface MigrationStep {
+  /// Convert the JSON representation of a document written for the
+  /// previous version into one for this version. May modify its
+  /// argument.
+  json?: (json: any) => any
+  /// Transform a document, loaded in `schema` (or the registry's
+  /// schema when that isn't given), as part of the migration to this
+  /// version.
+  node?: (node: Node) => Node
+  /// The schema used to load documents for the `node` transform.
+  /// This should be able to represent documents of this version, as
+  /// they are after the `json` transform of this step.
+  schema?: Schema
+}
+
+/// A registry of migration steps between versions of a schema,
+/// which can be used to load documents written for older versions
+/// of the schema.
+export class Migrations {
+  /// @internal
+  steps: {version: number, step: MigrationStep}[] = []
+
+  /// Create a registry for migrating documents to the given schema,
+  /// which has version number `version`.
+  constructor(
+    /// The schema that documents are migrated to.
+    readonly schema: Schema,
+    /// The current version of the schema.
+    readonly version: number
+  ) {}
+
+  /// Register a migration step that converts documents from the
+  /// version before `version` to `version`. Steps run in version
+  /// order, and only steps for versions above that of a document
+  /// are applied to it. Returns the registry, so that calls can be
+  /// chained.
+  register(version: number, step: MigrationStep): this {
+    if (version > this.version)
+      throw new RangeError(`Can't register a migration for version ${version}, which is newer than the current version ${this.version}`)
+    let index = 0
+    while (index < this.steps.length && this.steps[index].version < version) index++
+    if (index < this.steps.length && this.steps[index].version == version)
+      throw new RangeError(`A migration for version ${version} is already registered`)
+    this.steps.splice(index, 0, {version, step})
+    return this
+  }
+
+  /// Convert the JSON representation of a document written for the
+  /// given version to a JSON representation for the current version.
+  migrateJSON(json: any, version: number): any {
+    if (version > this.version)
+      throw new RangeError(`Document version ${version} is newer than the current version ${this.version}`)
+    for (let {version: stepVersion, step} of this.steps) {
+      if (stepVersion <= version) continue
+      if (step.json) json = step.json(json)
+      if (step.node) json = step.node((step.schema || this.schema).nodeFromJSON(json)).toJSON()
+    }
+    return json
+  }
+
+  /// Deserialize a document written for an older version of the
+  /// schema, applying the migration steps registered for newer
+  /// versions. When `version` isn't given, `json` should be a
+  /// versioned document as produced by
+  /// [`toJSON`](#model.Migrations.toJSON).
+  nodeFromJSON(json: any, version?: number): Node {
+    if (version == null) {
+      if (!json || typeof json.version != "number") throw new RangeError("Invalid input for Migrations.nodeFromJSON")
+      version = json.version as number
+      json = json.doc
+    }
+    return this.schema.nodeFromJSON(this.migrateJSON(json, version))
+  }
+
+  /// Create a versioned JSON representation of a document in the
+  /// current version of the schema.
+  toJSON(doc: Node): any {
+    return {version: this.version, doc: doc.toJSON()}
+  }
+
+  /// Create a JSON transform that calls `f` on every node in a
+  /// document's JSON representation, from the inside out. `f` may
+  /// return the node (possibly modified), an array of nodes to
+  /// replace it with, or null to remove it.
+  static mapNodes(f: (node: any) => any): (json: any) => any {
+    let map = (node: any): any => {
+      let copy = Object.assign({}, node)
+      if (Array.isArray(node.content)) {
+        copy.content = []
+        for (let child of node.content) {
+          let mapped = map(child)
+          if (Array.isArray(mapped)) copy.content.push(...mapped)
+          else if (mapped) copy.content.push(mapped)
+        }
+      }
+      return f(copy)
+    }
+    return map
+  }
+
+  /// Create a JSON transform that calls `f` on every mark in a
+  /// document. `f` may return the mark (possibly modified), an array
+  /// of marks to replace it with, or null to remove it.
+  static mapMarks(f: (mark: any, node: any) => any): (json: any) => any {
+    return Migrations.mapNodes(node => {
+      if (Array.isArray(node.marks)) {
+        let marks: any[] = []
+        for (let mark of node.marks) {
+          let mapped = f(mark, node)
+          if (Array.isArray(mapped)) marks.push(...mapped)
+          else if (mapped) marks.push(mapped)
+        }
+        if (marks.length) node.marks = marks
+        else delete node.marks
+      }
+      return node
+    })
+  }
+
+  /// Create a JSON transform that renames a node type.
+  static renameNode(from: string, to: string): (json: any) => any {
+    return Migrations.mapNodes(node => node.type == from ? Object.assign(node, {type: to}) : node)
+  }
+
+  /// Create a JSON transform that renames a mark type.
+  static renameMark(from: string, to: string): (json: any) => any {
+    return Migrations.mapMarks(mark => mark.type == from ? Object.assign({}, mark, {type: to}) : mark)
+  }
+
+  /// Create a JSON transform that renames an attribute on nodes or
+  /// marks of the given type.
+  static renameAttr(type: string, from: string, to: string): (json: any) => any {
+    let rename = (obj: any) => {
+      if (obj.type != type || !obj.attrs || !(from in obj.attrs)) return obj
+      let attrs = Object.assign({}, obj.attrs)
+      attrs[to] = attrs[from]
+      delete attrs[from]
+      return Object.assign({}, obj, {attrs})
+    }
+    let marks = Migrations.mapMarks(rename)
+    return json => marks(Migrations.mapNodes(rename)(json))
+  }
+}
@@ -1,9 +1,16 @@
 import {Fragment} from "./fragment"
 import {Mark} from "./mark"
 import {Schema, NodeType, Attrs, MarkType} from "./schema"
-import {Slice, replace} from "./replace"
+import {Slice, ReplaceError, replace} from "./replace"
 import {ResolvedPos} from "./resolvedpos"
 import {compareDeep} from "./comparedeep"
+import {TreeChange} from "./diff"
+import {MergeResult, mergeNodes} from "./merge"
+import {queryFragment} from "./query"
+import {RepairResult, repairNode} from "./repair"
+import {ValidationIssue, validateNode} from "./validate"
+import {TextExport, TextExportOptions, exportText} from "./text"
+import {SearchMatch, SearchOptions, searchNode} from "./search"
 
 const emptyAttrs: Attrs = Object.create(null)
 
@@ -83,6 +90,30 @@ export class Node {
     this.nodesBetween(0, this.content.size, f)
   }
 
+  /// Find the descendants of this node that match a CSS-like
+  /// selector, in document order, along with their positions
+  /// (relative to the start of this node's content).
+  ///
+  /// Selectors are built from node type or
+  /// [group](#model.NodeSpec.group) names (or `*`), `.name` to
+  /// require a mark of the given type or mark group, attribute
+  /// tests like `[level=2]` (supporting the `=`, `!=`, `^=`, `$=`,
+  /// `*=`, and `~=` operators, or just `[name]` to require a non-null
+  /// attribute), and the pseudo-classes `:first-child`,
+  /// `:last-child`, `:only-child`, `:empty`, `:not(selector)`, and
+  /// `:has(selector)`, where the argument to `:has` may start with a
+  /// combinator. These can be combined with the descendant (space),
+  /// child (`>`), and sibling (`+` and `~`) combinators, and grouped
+  /// with commas. For example `heading[level=2]`, `blockquote >
+  /// paragraph`, `paragraph:has(image)`, or `text.strong`. This node
+  /// itself is never returned, but can match the ancestor parts of a
+  /// selector.
+  ///
+  /// Names that don't exist in the schema raise a `SyntaxError`.
+  query(selector: string): {node: Node, pos: number}[] {
+    return queryFragment(this.content, selector, 0, this)
+  }
+
   /// Concatenates all the text nodes found in this fragment and its
   /// children.
   get textContent() {
@@ -101,6 +132,26 @@ export class Node {
     return this.content.textBetween(from, to, blockSeparator, leafText)
   }
 
+  /// Export this node's content as plain text, with configurable
+  /// block separators, list markers, leaf text, and line wrapping.
+  /// The result maps each character of the text back to a position
+  /// in the node.
+  exportText(options: TextExportOptions = {}): TextExport {
+    return exportText(this, options)
+  }
+
+  /// Find the matches for a string or regular expression in the text
+  /// of this node. Each textblock is searched as a whole, so matches
+  /// can span text nodes with different marks, but not block
+  /// boundaries. Inline leaf nodes appear in the searched text as
+  /// their [`leafText`](#model.NodeSpec.leafText), or as an object
+  /// replacement character (U+FFFC) when they have none. Returns the
+  /// matches in document order, with positions relative to the start
+  /// of this node's content.
+  search(query: string | RegExp, options: SearchOptions = {}): SearchMatch[] {
+    return searchNode(this, query, options)
+  }
+
   /// Returns this node's first child, or `null` if there are no
   /// children.
   get firstChild(): Node | null { return this.content.firstChild }
@@ -114,6 +165,26 @@ export class Node {
     return this == other || (this.sameMarkup(other) && this.content.eq(other.content))
   }
 
+  /// Compute the [changes](#model.TreeChange) between the content of
+  /// this node and that of another node. Positions in the result are
+  /// relative to the start of the nodes' content, so that, for
+  /// document nodes, they are document positions. See
+  /// [`Fragment.diff`](#model.Fragment.diff).
+  diff(other: Node): TreeChange[] {
+    return this.content.diff(other.content)
+  }
+
+  /// Perform a three-way merge of two nodes derived from this node
+  /// (which must all have the same type), combining the changes made
+  /// in each of them. Where both made incompatible changes to the
+  /// same content, or the combined changes don't produce content
+  /// that is valid for the schema, the merged node holds `a`'s version
+  /// of that content, and a [conflict](#model.MergeConflict) is
+  /// reported.
+  merge(a: Node, b: Node): MergeResult {
+    return mergeNodes(this, a, b)
+  }
+
   /// Compare the markup (type, attributes, and marks) of this node to
   /// those of another. Returns `true` if both have the same markup.
   sameMarkup(other: Node) {
@@ -171,6 +242,20 @@ export class Node {
     return replace(this.resolve(from), this.resolve(to), slice)
   }
 
+  /// Check whether [replacing](#model.Node.replace) the given range
+  /// with a slice would succeed. Returns null if it would, and the
+  /// [`ReplaceError`](#model.ReplaceError) that describes the problem
+  /// otherwise.
+  diagnoseReplace(from: number, to: number, slice = Slice.empty): ReplaceError | null {
+    try {
+      replace(this.resolve(from), this.resolve(to), slice)
+      return null
+    } catch (e) {
+      if (e instanceof ReplaceError) return e
+      throw e
+    }
+  }
+
   /// Find the node directly after the given position.
   nodeAt(pos: number): Node | null {
     for (let node: Node | null = this;;) {
@@ -298,13 +383,39 @@ export class Node {
   /// schema, and raise error when they do not.
   check() {
     this.type.checkContent(this.content)
+    this.type.checkAttrs(this.attrs)
     let copy = Mark.none
-    for (let i = 0; i < this.marks.length; i++) copy = this.marks[i].addToSet(copy)
+    for (let i = 0; i < this.marks.length; i++) {
+      let mark = this.marks[i]
+      mark.type.checkAttrs(mark.attrs)
+      copy = mark.addToSet(copy)
+    }
     if (!Mark.sameSet(copy, this.marks))
       throw new RangeError(`Invalid collection of marks for node ${this.type.name}: ${this.marks.map(m => m.type.name)}`)
     this.content.forEach(node => node.check())
   }
 
+  /// Check this node and its descendants against the schema, like
+  /// [`check`](#model.Node.check), but instead of raising an error
+  /// for the first problem, return a list of all problems found, in
+  /// document order. Returns an empty array when the node is valid.
+  validate(): ValidationIssue[] {
+    return validateNode(this)
+  }
+
+  /// Produce a version of this node that conforms to the schema,
+  /// along with a report of the changes that were made. Invalid or
+  /// missing attributes are replaced by their defaults, marks that
+  /// are invalid or not allowed in their parent are removed, content
+  /// that doesn't fit its parent is completed with required nodes,
+  /// wrapped in new nodes, replaced by its own content, or, as a last
+  /// resort, dropped, and missing required content is filled in.
+  /// Will raise an error if this node's own attributes can't be
+  /// repaired.
+  repair(): RepairResult {
+    return repairNode(this)
+  }
+
   /// Return a JSON-serializeable representation of this node.
   toJSON(): any {
     let obj: any = {type: this.type.name}
@@ -332,7 +443,9 @@ export class Node {
       return schema.text(json.text, marks)
     }
     let content = Fragment.fromJSON(schema, json.content)
-    return schema.nodeType(json.type).create(json.attrs, content, marks)
+    let node = schema.nodeType(json.type).create(json.attrs, content, marks)
+    node.type.checkAttrs(node.attrs)
+    return node
   }
 }
 
@@ -0,0 +1,179 @@
+import {DOMNode} from "./dom"
+
+// Helpers that only use the DOM interface that is also supported by
+// the nodes produced by the built-in HTML reader.
+
+function unwrap(dom: DOMNode) {
+  let parent = dom.parentNode!
+  while (dom.firstChild) parent.insertBefore(dom.firstChild, dom)
+  parent.removeChild(dom)
+}
+
+function wrapContent(dom: DOMNode, tag: string) {
+  let wrap = dom.ownerDocument!.createElement(tag)
+  while (dom.firstChild) wrap.appendChild(dom.firstChild)
+  dom.appendChild(wrap)
+}
+
+function elements(dom: DOMNode, f: (elt: HTMLElement) => void) {
+  for (let child = dom.firstChild, next; child; child = next) {
+    next = child.nextSibling
+    if (child.nodeType == 1) f(child as HTMLElement)
+  }
+}
+
+function styleOf(dom: HTMLElement) {
+  return dom.getAttribute("style") || ""
+}
+
+function isBlank(dom: DOMNode) {
+  return dom.nodeType == 8 || dom.nodeType == 3 && !/[^ \t\r\n\u000c]/.test(dom.nodeValue!)
+}
+
+/// Rewrite HTML produced by Microsoft Word into semantic structure,
+/// so that it can be used as a [normalizer](#model.ParseOptions.normalize).
+/// Turns paragraphs with `mso-list` styles into (nested) `<ul>` and
+/// `<ol>` lists, removes the list markers and other content that
+/// Word wraps in `[if !supportLists]` conditional comments or
+/// `mso-list: Ignore` styles, unwraps `<o:p>` elements, and removes
+/// `<xml>` and `<meta>` elements. Markup that doesn't come from Word
+/// is left alone.
+export function normalizeWordHTML(dom: DOMNode) {
+  wordLists(dom)
+  wordCleanup(dom)
+}
+
+const wordListStyle = /mso-list:\s*(l\d+)\s+level(\d+)/i, wordIgnore = /mso-list:\s*ignore/i
+
+function wordMarker(dom: HTMLElement): string | null {
+  let found: string | null = null
+  elements(dom, child => {
+    if (found != null) return
+    found = wordIgnore.test(styleOf(child)) ? child.textContent! : wordMarker(child)
+  })
+  return found
+}
+
+function wordLists(dom: DOMNode) {
+  let stack: {list: HTMLElement, level: number, ordered: boolean}[] = [], listID = ""
+  for (let child = dom.firstChild, next; child; child = next) {
+    next = child.nextSibling
+    if (isBlank(child) && stack.length) continue
+    let match = child.nodeType == 1 ? wordListStyle.exec(styleOf(child as HTMLElement)) : null
+    if (!match) {
+      stack.length = 0
+      if (child.nodeType == 1) wordLists(child)
+      continue
+    }
+    let para = child as HTMLElement, level = +match[2]
+    let marker = (wordMarker(para) || "").replace(/\s+/g, "")
+    let ordered = /^\(?([0-9]+|[a-z]|[ivxlcdm]+)[.)]$/i.test(marker)
+    if (match[1] != listID) stack.length = 0
+    listID = match[1]
+    while (stack.length && stack[stack.length - 1].level > level) stack.pop()
+    let top = stack[stack.length - 1]
+    if (top && top.level == level && top.ordered != ordered) {
+      stack.pop()
+      top = stack[stack.length - 1]
+    }
+    if (!top || top.level < level) {
+      let list = para.ownerDocument!.createElement(ordered ? "ol" : "ul")
+      if (ordered && /^\d+/.test(marker) && parseInt(marker, 10) != 1) list.setAttribute("start", String(parseInt(marker, 10)))
+      let parent = stack[stack.length - 1]
+      if (parent) parent.list.lastChild!.appendChild(list)
+      else dom.insertBefore(list, para)
+      stack.push(top = {list, level, ordered})
+    }
+    let item = para.ownerDocument!.createElement("li")
+    top.list.appendChild(item)
+    item.appendChild(para)
+  }
+}
+
+function isComment(dom: DOMNode, content: RegExp) {
+  return dom.nodeType == 8 && content.test(dom.nodeValue!.trim())
+}
+
+function wordCleanup(dom: DOMNode) {
+  let skipping = false
+  for (let child = dom.firstChild, next; child; child = next) {
+    next = child.nextSibling
+    if (child.nodeType == 8) {
+      if (isComment(child, /^\[if !supportLists\]$/i)) {
+        // Only skip content when the conditional section is closed
+        let end = child.nextSibling
+        while (end && !isComment(end, /^\[endif\]$/i)) end = end.nextSibling
+        if (!end) continue
+        skipping = true
+      } else if (skipping && isComment(child, /^\[endif\]$/i)) {
+        skipping = false
+      } else {
+        continue
+      }
+      dom.removeChild(child)
+    } else if (skipping) {
+      dom.removeChild(child)
+    } else if (child.nodeType == 1) {
+      let name = child.nodeName.toLowerCase()
+      if (name == "xml" || name == "meta" || wordIgnore.test(styleOf(child as HTMLElement))) {
+        dom.removeChild(child)
+      } else {
+        wordCleanup(child)
+        if (name == "o:p") unwrap(child)
+      }
+    }
+  }
+}
+
+/// Rewrite HTML produced by Google Docs, so that it can be used as a
+/// [normalizer](#model.ParseOptions.normalize). Unwraps the `<b
+/// style="font-weight: normal">` element that Docs wraps around
+/// copied content, and turns the styles on its `<span>` elements
+/// that mean bold, italic, underlined, struck-through, superscript,
+/// and subscript text into `<strong>`, `<em>`, `<u>`, `<s>`, `<sup>`,
+/// and `<sub>` elements. Also removes the `Apple-interchange-newline`
+/// line break that browsers add after copied content. Does nothing
+/// to HTML that doesn't have the `docs-internal-guid` marker that
+/// Docs adds.
+export function normalizeGoogleDocsHTML(dom: DOMNode) {
+  let wrappers: HTMLElement[] = [], newlines: HTMLElement[] = []
+  let scan = (dom: DOMNode) => elements(dom, elt => {
+    if (/^docs-internal-guid/.test(elt.getAttribute("id") || "")) wrappers.push(elt)
+    else if (elt.nodeName == "BR" && /\bApple-interchange-newline\b/.test(elt.getAttribute("class") || "")) newlines.push(elt)
+    else scan(elt)
+  })
+  scan(dom)
+  for (let wrapper of wrappers) {
+    docsSpans(wrapper)
+    if (wrapper.nodeName == "B") unwrap(wrapper)
+  }
+  // Remove the line break the browser adds after copied content
+  if (wrappers.length) for (let br of newlines) br.parentNode!.removeChild(br)
+}
+
+const docsStyles: {test: RegExp, tag: string}[] = [
+  {test: /^font-weight:\s*(bold|[6-9]\d\d)$/, tag: "strong"},
+  {test: /^font-style:\s*italic$/, tag: "em"},
+  {test: /^text-decoration(-line)?:.*underline/, tag: "u"},
+  {test: /^text-decoration(-line)?:.*line-through/, tag: "s"},
+  {test: /^vertical-align:\s*super$/, tag: "sup"},
+  {test: /^vertical-align:\s*sub$/, tag: "sub"}
+]
+
+function docsSpans(dom: DOMNode) {
+  elements(dom, elt => {
+    docsSpans(elt)
+    if (elt.nodeName == "SPAN") {
+      let kept = []
+      for (let decl of styleOf(elt).split(";")) {
+        decl = decl.trim()
+        if (!decl) continue
+        let style = docsStyles.filter(s => s.test.test(decl))
+        for (let s of style) wrapContent(elt, s.tag)
+        if (!style.length) kept.push(decl)
+      }
+      if (kept.length) elt.setAttribute("style", kept.join("; "))
+      else elt.removeAttribute("style")
+    }
+  })
+}
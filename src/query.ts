@@ -0,0 +1,280 @@
+import {Fragment} from "./fragment"
+import {Node} from "./node"
+import {Schema, NodeType, MarkType} from "./schema"
+
+type AttrTest = {name: string, op: string, value: string}
+
+type Pseudo =
+  {type: "first-child" | "last-child" | "only-child" | "empty"} |
+  {type: "not", selector: Selector} |
+  {type: "has", selector: Selector}
+
+type Compound = {
+  // Null when any node type matches.
+  types: readonly NodeType[] | null,
+  // Each entry lists the mark types of which the node must have one.
+  marks: (readonly MarkType[])[],
+  attrs: AttrTest[],
+  pseudo: Pseudo[],
+  // Matches only the node a `:has` selector is tested on.
+  scope: boolean
+}
+
+// A sequence of compound selectors, with the combinators between
+// them (`combinators[i]` connects `parts[i]` and `parts[i + 1]`).
+type Complex = {parts: Compound[], combinators: string[]}
+
+type Selector = Complex[]
+
+class SelectorParser {
+  pos = 0
+
+  constructor(readonly string: string, readonly schema: Schema) {}
+
+  get next() { return this.string.charAt(this.pos) }
+
+  eat(ch: string) { return this.next == ch && (this.pos++ || true) }
+
+  space() {
+    let start = this.pos
+    while (/\s/.test(this.next)) this.pos++
+    return this.pos > start
+  }
+
+  name() {
+    let match = /^[\w-]+/.exec(this.string.slice(this.pos))
+    if (!match) this.err("Expected a name")
+    this.pos += match![0].length
+    return match![0]
+  }
+
+  err(str: string): never { throw new SyntaxError(str + " (in selector '" + this.string + "')") }
+}
+
+function parseSelector(p: SelectorParser, relative: boolean): Selector {
+  let result: Selector = []
+  do {
+    p.space()
+    let parts: Compound[] = [], combinators: string[] = []
+    if (relative) {
+      parts.push({types: null, marks: [], attrs: [], pseudo: [], scope: true})
+      combinators.push(/[>+~]/.test(p.next) ? p.string.charAt(p.pos++) : " ")
+      p.space()
+    }
+    for (;;) {
+      parts.push(parseCompound(p))
+      let space = p.space()
+      if (/[>+~]/.test(p.next)) {
+        combinators.push(p.string.charAt(p.pos++))
+        p.space()
+      } else if (space && p.pos < p.string.length && !/[,)]/.test(p.next)) {
+        combinators.push(" ")
+      } else {
+        break
+      }
+    }
+    result.push({parts, combinators})
+  } while (p.eat(","))
+  return result
+}
+
+function parseCompound(p: SelectorParser): Compound {
+  let compound: Compound = {types: null, marks: [], attrs: [], pseudo: [], scope: false}, start = p.pos
+  if (p.eat("*")) {
+    // Matches any node
+  } else if (/[\w-]/.test(p.next)) {
+    compound.types = resolveNodeName(p, p.name())
+  }
+  for (;;) {
+    if (p.eat(".")) {
+      compound.marks.push(resolveMarkName(p, p.name()))
+    } else if (p.eat("[")) {
+      p.space()
+      let name = p.name(), op = "", value = ""
+      p.space()
+      let opMatch = /^[~^$*!]?=/.exec(p.string.slice(p.pos))
+      if (opMatch) {
+        op = opMatch[0]
+        p.pos += op.length
+        p.space()
+        let quote = p.next
+        if (quote == '"' || quote == "'") {
+          let end = p.string.indexOf(quote, p.pos + 1)
+          if (end < 0) p.err("Unterminated string")
+          value = p.string.slice(p.pos + 1, end)
+          p.pos = end + 1
+        } else {
+          value = p.name()
+        }
+        p.space()
+      }
+      if (!p.eat("]")) p.err("Expected ']'")
+      compound.attrs.push({name, op, value})
+    } else if (p.eat(":")) {
+      let name = p.name()
+      if (name == "not" || name == "has") {
+        if (!p.eat("(")) p.err("Expected '(' after :" + name)
+        let selector = parseSelector(p, name == "has")
+        p.space()
+        if (!p.eat(")")) p.err("Expected ')'")
+        compound.pseudo.push({type: name, selector})
+      } else if (name == "first-child" || name == "last-child" || name == "only-child" || name == "empty") {
+        compound.pseudo.push({type: name})
+      } else {
+        p.err("Unknown pseudo-class ':" + name + "'")
+      }
+    } else {
+      break
+    }
+  }
+  if (p.pos == start) p.err(p.pos < p.string.length ? "Unexpected character '" + p.next + "'" : "Unexpected end")
+  return compound
+}
+
+function resolveNodeName(p: SelectorParser, name: string): readonly NodeType[] {
+  let types = p.schema.nodes, type = types[name]
+  if (type) return [type]
+  let result = []
+  for (let typeName in types) {
+    let type = types[typeName]
+    if (type.groups.indexOf(name) > -1) result.push(type)
+  }
+  if (result.length == 0) p.err("No node type or group '" + name + "' found")
+  return result
+}
+
+function resolveMarkName(p: SelectorParser, name: string): readonly MarkType[] {
+  let marks = p.schema.marks, mark = marks[name]
+  if (mark) return [mark]
+  let result = []
+  for (let markName in marks) {
+    let mark = marks[markName]
+    if (mark.spec.group && mark.spec.group.split(" ").indexOf(name) > -1) result.push(mark)
+  }
+  if (result.length == 0) p.err("No mark type or group '" + name + "' found")
+  return result
+}
+
+function getSelector(schema: Schema, string: string): Selector {
+  let cache = schema.cached.selectors || (schema.cached.selectors = Object.create(null))
+  let found = cache[string]
+  if (!found) {
+    let p = new SelectorParser(string, schema)
+    found = parseSelector(p, false)
+    if (p.pos < string.length) p.err("Unexpected character '" + p.next + "'")
+    cache[string] = found
+  }
+  return found
+}
+
+// The sequence of nodes that a query runs over. Either a fragment
+// or a single node wrapped with `single`. (Wrapping a node in an
+// actual fragment would make this module depend on `Fragment`, which
+// itself depends on this module.)
+type Container = {readonly childCount: number, child(index: number): Node}
+
+function single(node: Node): Container {
+  return {childCount: 1, child: () => node}
+}
+
+// Tracks the nodes and child indices on the path to the node that
+// is being matched. Nodes at depth 0 are children of `top`.
+class QueryContext {
+  nodes: Node[] = []
+  indices: number[] = []
+
+  constructor(readonly top: Container) {}
+
+  container(depth: number) { return depth ? this.nodes[depth - 1].content : this.top }
+}
+
+function testAttr(node: Node, test: AttrTest) {
+  let value = node.attrs[test.name]
+  if (value == null) return false
+  if (!test.op) return true
+  let str = String(value), expected = test.value
+  switch (test.op) {
+    case "=": return str == expected
+    case "!=": return str != expected
+    case "^=": return str.slice(0, expected.length) == expected
+    case "$=": return str.slice(str.length - expected.length) == expected
+    case "*=": return str.indexOf(expected) > -1
+    default: return str.split(/\s+/).indexOf(expected) > -1
+  }
+}
+
+function matchCompound(compound: Compound, cx: QueryContext, depth: number, index: number): boolean {
+  let container = cx.container(depth), node = container.child(index)
+  if (compound.scope && depth > 0) return false
+  if (compound.types && compound.types.indexOf(node.type) < 0) return false
+  for (let types of compound.marks)
+    if (!node.marks.some(mark => types.indexOf(mark.type) > -1)) return false
+  for (let test of compound.attrs) if (!testAttr(node, test)) return false
+  for (let pseudo of compound.pseudo) {
+    switch (pseudo.type) {
+      case "first-child": if (index > 0) return false; break
+      case "last-child": if (index < container.childCount - 1) return false; break
+      case "only-child": if (container.childCount > 1) return false; break
+      case "empty": if (node.isText || node.childCount) return false; break
+      case "not": if (matchSelector(pseudo.selector, cx, depth, index)) return false; break
+      case "has": if (!findMatches(pseudo.selector, single(node), -1, 1, true).length) return false; break
+    }
+  }
+  return true
+}
+
+function matchComplex(complex: Complex, i: number, cx: QueryContext, depth: number, index: number): boolean {
+  if (!matchCompound(complex.parts[i], cx, depth, index)) return false
+  if (i == 0) return true
+  switch (complex.combinators[i - 1]) {
+    case ">":
+      return depth > 0 && matchComplex(complex, i - 1, cx, depth - 1, cx.indices[depth - 1])
+    case " ":
+      for (let d = depth - 1; d >= 0; d--)
+        if (matchComplex(complex, i - 1, cx, d, cx.indices[d])) return true
+      return false
+    case "+":
+      return index > 0 && matchComplex(complex, i - 1, cx, depth, index - 1)
+    default:
+      for (let j = index - 1; j >= 0; j--)
+        if (matchComplex(complex, i - 1, cx, depth, j)) return true
+      return false
+  }
+}
+
+function matchSelector(selector: Selector, cx: QueryContext, depth: number, index: number) {
+  for (let complex of selector)
+    if (matchComplex(complex, complex.parts.length - 1, cx, depth, index)) return true
+  return false
+}
+
+// Find the nodes in `top` that match the selector. Nodes shallower
+// than `minDepth` are only used as context, not returned.
+function findMatches(selector: Selector, top: Container, pos: number, minDepth: number, first: boolean) {
+  let cx = new QueryContext(top), result: {node: Node, pos: number}[] = []
+  let scan = (content: Container, depth: number, pos: number) => {
+    for (let i = 0; i < content.childCount; i++) {
+      let node = content.child(i)
+      cx.nodes[depth] = node
+      cx.indices[depth] = i
+      if (depth >= minDepth && matchSelector(selector, cx, depth, i)) {
+        result.push({node, pos})
+        if (first) return true
+      }
+      if (node.childCount && scan(node.content, depth + 1, pos + 1)) return true
+      pos += node.nodeSize
+    }
+    cx.nodes.length = cx.indices.length = depth
+    return false
+  }
+  scan(top, 0, pos)
+  return result
+}
+
+export function queryFragment(fragment: Fragment, selector: string, pos: number, parent: Node | null) {
+  let schema = parent ? parent.type.schema : fragment.firstChild && fragment.firstChild.type.schema
+  if (!schema) return []
+  let parsed = getSelector(schema, selector)
+  return parent ? findMatches(parsed, single(parent), pos - 1, 1, false)
+    : findMatches(parsed, fragment, pos, 0, false)
+}
@@ -0,0 +1,183 @@
+import {Fragment} from "./fragment"
+import {Node} from "./node"
+import {Mark} from "./mark"
+import {NodeType} from "./schema"
+import {ContentMatch} from "./content"
+
+/// Describes a change made by [`Node.repair`](#model.Node.repair).
+export interface RepairChange {
+  /// The kind of change. `"attrs"` means missing, invalid, or unknown
+  /// attributes were replaced by their defaults or removed. `"marks"`
+  /// means marks that were invalid or not allowed in their parent
+  /// were removed. `"wrap"` means a node was wrapped in new nodes to
+  /// make it fit its parent, `"unwrap"` that a node that didn't fit
+  /// was replaced by its content, `"fill"` that required nodes were
+  /// created, and `"drop"` that a node was removed.
+  kind: "attrs" | "marks" | "wrap" | "unwrap" | "fill" | "drop"
+  /// The position of the affected node in the original node,
+  /// relative to the start of its content, or -1 for the repaired
+  /// node itself. For `"fill"` changes, this is the position at which
+  /// the nodes were inserted.
+  pos: number
+  /// The affected node, as it appeared in the original node. For
+  /// `"fill"` changes, this is the parent node.
+  node: Node
+  /// A description of the change.
+  message: string
+}
+
+/// The result of [repairing](#model.Node.repair) a node.
+export interface RepairResult {
+  /// The repaired node.
+  node: Node
+  /// The changes that were made, in document order.
+  changes: RepairChange[]
+}
+
+type Wrap = {types: readonly NodeType[], nodes: Node[], match: ContentMatch, pos: number}
+
+function typeNames(fragment: Fragment) {
+  let names: string[] = []
+  fragment.forEach(node => names.push(node.type.name))
+  return names.join(", ")
+}
+
+class Repair {
+  changes: RepairChange[] = []
+
+  report(kind: RepairChange["kind"], pos: number, node: Node, message: string) {
+    this.changes.push({kind, pos, node, message})
+  }
+
+  // Repair the attributes of a node's marks, dropping marks whose
+  // attributes can't be repaired.
+  marks(node: Node, pos: number) {
+    let marks = Mark.none
+    for (let mark of node.marks) {
+      let problems: string[] = []
+      let attrs = mark.type.repairAttrs(mark.attrs, problems)
+      if (!attrs) {
+        this.report("marks", pos, node, `Removed ${mark.type.name} mark with invalid attributes`)
+        continue
+      }
+      if (problems.length) {
+        this.report("marks", pos, node, `Repaired attributes of ${mark.type.name} mark: ${problems.join("; ")}`)
+        mark = mark.type.create(attrs)
+      }
+      let added = mark.addToSet(marks)
+      if (added.length <= marks.length)
+        this.report("marks", pos, node, `Removed ${mark.type.name} mark, which conflicts with other marks`)
+      marks = added
+    }
+    return marks
+  }
+
+  // Remove the marks that aren't allowed in the given parent type.
+  allowMarks(node: Node, original: Node, parent: NodeType, pos: number) {
+    let allowed = parent.allowedMarks(node.marks)
+    if (allowed == node.marks) return node
+    for (let mark of node.marks) if (!mark.isInSet(allowed))
+      this.report("marks", pos, original, `Removed ${mark.type.name} mark, which is not allowed in ${parent.name}`)
+    return node.mark(allowed)
+  }
+
+  // Repair a node and its content, without looking at whether it fits
+  // its parent. Returns null when the node can't be made valid.
+  node(node: Node, pos: number): Node | null {
+    let start = this.changes.length
+    let marks = this.marks(node, pos)
+    if (node.isText) return this.changes.length == start ? node : node.mark(marks)
+    let problems: string[] = []
+    let attrs = node.type.repairAttrs(node.attrs, problems)
+    if (!attrs) return null
+    if (problems.length) this.report("attrs", pos, node, problems.join("; "))
+    let content = this.content(node, pos + 1)
+    if (!content) return null
+    return this.changes.length == start ? node : node.type.create(attrs, content, marks)
+  }
+
+  // Repair the content of a node so that it matches the node's
+  // content expression.
+  content(parent: Node, pos: number): Fragment | null {
+    let type = parent.type, match = type.contentMatch, result: Node[] = [], start = this.changes.length
+    let wrap: Wrap | null = null
+
+    let closeWrap = () => {
+      if (!wrap) return
+      let {types, nodes} = wrap, node = types[types.length - 1].createAndFill(null, nodes)
+      for (let i = types.length - 2; node && i >= 0; i--) node = types[i].createAndFill(null, node)
+      if (node) {
+        result.push(node)
+        match = match.matchType(types[0])!
+      } else {
+        for (let lost of nodes)
+          this.report("drop", wrap.pos, lost, `Dropped ${lost.type.name} node, which could not be wrapped`)
+      }
+      wrap = null
+    }
+
+    let add = (child: Node, childPos: number) => {
+      let before = this.changes.length, repaired = this.node(child, childPos)
+      if (!repaired) this.changes.length = before
+      if (repaired) {
+        if (wrap) {
+          let inner = wrap.types[wrap.types.length - 1], next = wrap.match.matchType(repaired.type)
+          if (next) {
+            wrap.nodes.push(this.allowMarks(repaired, child, inner, childPos))
+            wrap.match = next
+            return
+          }
+          closeWrap()
+        }
+        let next = match.matchType(repaired.type)
+        if (next) {
+          result.push(this.allowMarks(repaired, child, type, childPos))
+          match = next
+          return
+        }
+        let fill = match.fillBefore(Fragment.from(repaired))
+        if (fill) {
+          this.report("fill", childPos, parent, `Inserted required ${typeNames(fill)} before ${repaired.type.name}`)
+          fill.forEach(node => result.push(node))
+          result.push(this.allowMarks(repaired, child, type, childPos))
+          match = match.matchFragment(fill)!.matchType(repaired.type)!
+          return
+        }
+        let wrapping = match.findWrapping(repaired.type)
+        if (wrapping && wrapping.length) {
+          let inner = wrapping[wrapping.length - 1]
+          this.report("wrap", childPos, child, `Wrapped ${repaired.type.name} in ${wrapping.map(t => t.name).join(", ")}`)
+          wrap = {types: wrapping, nodes: [this.allowMarks(repaired, child, inner, childPos)],
+                  match: inner.contentMatch.matchType(repaired.type)!, pos: childPos}
+          return
+        }
+      }
+      if (!child.isLeaf) {
+        // The content is repaired again as it is added, so drop the
+        // changes reported for the node itself
+        this.changes.length = before
+        this.report("unwrap", childPos, child, `Replaced ${child.type.name} node with its content`)
+        child.forEach((node, offset) => add(node, childPos + 1 + offset))
+      } else {
+        this.report("drop", childPos, child, repaired ? `Dropped ${child.type.name} node, which is not allowed in ${type.name}`
+                    : `Dropped ${child.type.name} node with invalid attributes`)
+      }
+    }
+
+    parent.forEach((child, offset) => add(child, pos + offset))
+    closeWrap()
+    if (!match.validEnd) {
+      let fill = match.fillBefore(Fragment.empty, true)
+      if (!fill) return null
+      this.report("fill", pos + parent.content.size, parent, `Appended required ${typeNames(fill)}`)
+      fill.forEach(node => result.push(node))
+    }
+    return this.changes.length == start ? parent.content : Fragment.fromArray(result)
+  }
+}
+
+export function repairNode(node: Node): RepairResult {
+  let repair = new Repair, result = repair.node(node, -1)
+  if (!result) throw new RangeError("Cannot repair " + node.type.name + " node")
+  return {node: result, changes: repair.changes}
+}
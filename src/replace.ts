@@ -1,11 +1,47 @@
 import {Fragment} from "./fragment"
-import {Schema} from "./schema"
+import {Schema, NodeType} from "./schema"
 import {Node, TextNode} from "./node"
 import {ResolvedPos} from "./resolvedpos"
+import {ContentMatch} from "./content"
 
 /// Error type raised by [`Node.replace`](#model.Node.replace) when
-/// given an invalid replacement.
-export class ReplaceError extends Error {}
+/// given an invalid replacement. Errors raised by the replace
+/// algorithm describe where the replacement failed. This is a
+/// subclass of `RangeError`, which is what invalid content errors
+/// used to be raised as.
+export class ReplaceError extends RangeError {
+  /// @internal
+  constructor(
+    message: string,
+    /// The depth of the node in which the replacement failed, if
+    /// known.
+    readonly depth: number | null = null,
+    /// A resolved position (in the document that the replacement was
+    /// applied to) that points into the node in which the replacement
+    /// failed.
+    readonly $pos: ResolvedPos | null = null,
+    /// The content that could not be placed. For invalid content
+    /// errors, this is the complete content that the node would have
+    /// had. For join errors, it is the content of the node that could
+    /// not be joined.
+    readonly fragment: Fragment | null = null,
+    /// For invalid content errors, the state of the node's content
+    /// expression at the point where the content stopped matching.
+    readonly match: ContentMatch | null = null,
+    /// For invalid content errors, the index in `fragment` of the
+    /// first child that did not fit, or the fragment's child count
+    /// when the content ended too early.
+    readonly index: number | null = null
+  ) {
+    super(message)
+  }
+
+  /// The node types that would have been valid at the point where
+  /// the content stopped matching.
+  get expected(): readonly NodeType[] {
+    return this.match ? this.match.nextTypes : []
+  }
+}
 /*
 ReplaceError = function(this: any, message: string) {
   let err = Error.call(this, message)
@@ -121,9 +157,9 @@ function insertInto(content: Fragment, dist: number, insert: Fragment, parent?:
 
 export function replace($from: ResolvedPos, $to: ResolvedPos, slice: Slice) {
   if (slice.openStart > $from.depth)
-    throw new ReplaceError("Inserted content deeper than insertion position")
+    throw new ReplaceError("Inserted content deeper than insertion position", $from.depth, $from, slice.content)
   if ($from.depth - slice.openStart != $to.depth - slice.openEnd)
-    throw new ReplaceError("Inconsistent open depths")
+    throw new ReplaceError("Inconsistent open depths", $from.depth, $from, slice.content)
   return replaceOuter($from, $to, slice, 0)
 }
 
@@ -133,24 +169,28 @@ function replaceOuter($from: ResolvedPos, $to: ResolvedPos, slice: Slice, depth:
     let inner = replaceOuter($from, $to, slice, depth + 1)
     return node.copy(node.content.replaceChild(index, inner))
   } else if (!slice.content.size) {
-    return close(node, replaceTwoWay($from, $to, depth))
+    return close(node, replaceTwoWay($from, $to, depth), $from, depth)
   } else if (!slice.openStart && !slice.openEnd && $from.depth == depth && $to.depth == depth) { // Simple, flat case
     let parent = $from.parent, content = parent.content
-    return close(parent, content.cut(0, $from.parentOffset).append(slice.content).append(content.cut($to.parentOffset)))
+    return close(parent, content.cut(0, $from.parentOffset).append(slice.content).append(content.cut($to.parentOffset)),
+                 $from, depth)
   } else {
     let {start, end} = prepareSliceForReplace(slice, $from)
-    return close(node, replaceThreeWay($from, start, end, $to, depth))
+    return close(node, replaceThreeWay($from, start, end, $to, depth), $from, depth)
   }
 }
 
-function checkJoin(main: Node, sub: Node) {
+// `$pos` and `depth` point at the node in the target document in
+// which the join happens, for error reporting.
+function checkJoin(main: Node, sub: Node, $pos: ResolvedPos, depth: number) {
   if (!sub.type.compatibleContent(main.type))
-    throw new ReplaceError("Cannot join " + sub.type.name + " onto " + main.type.name)
+    throw new ReplaceError(`Cannot join ${sub.type.name} onto ${main.type.name} at depth ${depth} (position ${$pos.pos})`,
+                           depth, $pos, sub.content)
 }
 
-function joinable($before: ResolvedPos, $after: ResolvedPos, depth: number) {
+function joinable($before: ResolvedPos, $after: ResolvedPos, depth: number, $pos: ResolvedPos) {
   let node = $before.node(depth)
-  checkJoin(node, $after.node(depth))
+  checkJoin(node, $after.node(depth), $pos, depth)
   return node
 }
 
@@ -179,26 +219,38 @@ function addRange($start: ResolvedPos | null, $end: ResolvedPos | null, depth: n
     addNode($end.nodeBefore!, target)
 }
 
-function close(node: Node, content: Fragment) {
-  node.type.checkContent(content)
+function close(node: Node, content: Fragment, $pos: ResolvedPos, depth: number) {
+  if (!node.type.validContent(content)) throw contentError(node.type, content, $pos, depth)
   return node.copy(content)
 }
 
+function contentError(type: NodeType, content: Fragment, $pos: ResolvedPos, depth: number) {
+  let mismatch = type.contentMismatch(content)
+  if (!mismatch) {
+    let index = 0
+    while (type.allowsMarks(content.child(index).marks)) index++
+    mismatch = {match: type.contentMatch.matchFragment(content, 0, index)!, index,
+                message: `found disallowed marks on ${content.child(index).type.name}`}
+  }
+  return new ReplaceError(`Invalid content for node ${type.name} at depth ${depth} (position ${$pos.pos}): ${mismatch.message}`,
+                          depth, $pos, content, mismatch.match, mismatch.index)
+}
+
 function replaceThreeWay($from: ResolvedPos, $start: ResolvedPos, $end: ResolvedPos, $to: ResolvedPos, depth: number) {
-  let openStart = $from.depth > depth && joinable($from, $start, depth + 1)
-  let openEnd = $to.depth > depth && joinable($end, $to, depth + 1)
+  let openStart = $from.depth > depth && joinable($from, $start, depth + 1, $from)
+  let openEnd = $to.depth > depth && joinable($end, $to, depth + 1, $to)
 
   let content: Node[] = []
   addRange(null, $from, depth, content)
   if (openStart && openEnd && $start.index(depth) == $end.index(depth)) {
-    checkJoin(openStart, openEnd)
-    addNode(close(openStart, replaceThreeWay($from, $start, $end, $to, depth + 1)), content)
+    checkJoin(openStart, openEnd, $from, depth + 1)
+    addNode(close(openStart, replaceThreeWay($from, $start, $end, $to, depth + 1), $from, depth + 1), content)
   } else {
     if (openStart)
-      addNode(close(openStart, replaceTwoWay($from, $start, depth + 1)), content)
+      addNode(close(openStart, replaceTwoWay($from, $start, depth + 1), $from, depth + 1), content)
     addRange($start, $end, depth, content)
     if (openEnd)
-      addNode(close(openEnd, replaceTwoWay($end, $to, depth + 1)), content)
+      addNode(close(openEnd, replaceTwoWay($end, $to, depth + 1), $to, depth + 1), content)
   }
   addRange($to, null, depth, content)
   return new Fragment(content)
@@ -208,8 +260,8 @@ function replaceTwoWay($from: ResolvedPos, $to: ResolvedPos, depth: number) {
   let content: Node[] = []
   addRange(null, $from, depth, content)
   if ($from.depth > depth) {
-    let type = joinable($from, $to, depth + 1)
-    addNode(close(type, replaceTwoWay($from, $to, depth + 1)), content)
+    let type = joinable($from, $to, depth + 1, $from)
+    addNode(close(type, replaceTwoWay($from, $to, depth + 1), $from, depth + 1), content)
   }
   addRange($to, null, depth, content)
   return new Fragment(content)
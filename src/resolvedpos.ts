@@ -1,5 +1,6 @@
 import {Mark} from "./mark"
 import {Node} from "./node"
+import {TextUnit, textBoundary} from "./segment"
 
 /// You can [_resolve_](#model.Node.resolve) a position to get more
 /// information about it. Objects of this class represent such a
@@ -196,6 +197,21 @@ export class ResolvedPos {
     return this.pos - this.parentOffset == other.pos - other.parentOffset
   }
 
+  /// Find the next (when `dir` is positive) or previous boundary of
+  /// the given unit of text, using
+  /// [`Intl.Segmenter`](https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Intl/Segmenter)
+  /// when available, so that, for example, emoji and combining
+  /// characters aren't split. Moving by word skips over whitespace
+  /// and punctuation to the end (or start) of the next word. When
+  /// there is no boundary left in this position's textblock, the
+  /// start of the next (or end of the previous) textblock is returned.
+  /// Positions outside of textblocks move to the nearest textblock in
+  /// the given direction. Returns null when there is no textblock to
+  /// move to.
+  textBoundary(unit: TextUnit, dir = 1): ResolvedPos | null {
+    return textBoundary(this, unit, dir)
+  }
+
   /// Return the greater of this and the given position.
   max(other: ResolvedPos): ResolvedPos {
     return other.pos > this.pos ? other : this
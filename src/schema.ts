@@ -6,6 +6,9 @@ import {Mark} from "./mark"
 import {ContentMatch} from "./content"
 import {DOMOutputSpec} from "./to_dom"
 import {ParseRule} from "./from_dom"
+import {MarkdownNodeSerializer, MarkdownMarkSpec} from "./to_markdown"
+import {SchemaChange, DocumentProblem, compareSchemas, checkDocuments} from "./compat"
+import {DeclarationOptions, schemaDeclarations} from "./typegen"
 
 /// An object holding the attributes of a node.
 export type Attrs = {readonly [attr: string]: any}
@@ -38,9 +41,58 @@ function computeAttrs(attrs: Attrs, value: Attrs | null) {
   return built
 }
 
-function initAttrs(attrs?: {[name: string]: AttributeSpec}) {
+function checkAttrs(attrs: {[name: string]: Attribute}, values: Attrs) {
+  for (let name in attrs) {
+    let validate = attrs[name].validate
+    if (validate) validate(values[name])
+  }
+}
+
+// Describe what is wrong with an attribute value, if anything.
+function attrProblem(attr: Attribute, name: string, value: any): string | null {
+  if (value === undefined) return "Missing value for attribute " + name
+  if (attr.validate) {
+    try { attr.validate(value) }
+    catch (e) { return (e as Error).message }
+  }
+  return null
+}
+
+function attrProblems(attrs: {[name: string]: Attribute}, values: Attrs) {
+  let problems: string[] = []
+  for (let name in attrs) {
+    let problem = attrProblem(attrs[name], name, values[name])
+    if (problem) problems.push(problem)
+  }
+  return problems
+}
+
+// Build a set of attributes in which missing or invalid values are
+// replaced by their defaults, adding a description of each
+// replacement to `problems`. Returns null when an attribute without a
+// default is missing or invalid.
+function repairAttrs(attrs: {[name: string]: Attribute}, values: Attrs, problems: string[]): Attrs | null {
+  let built = Object.create(null)
+  for (let name in attrs) {
+    let attr = attrs[name], value = values[name], problem = attrProblem(attr, name, value)
+    if (problem) {
+      if (!attr.hasDefault) return null
+      problems.push(problem)
+      value = attr.default
+    }
+    built[name] = value
+  }
+  for (let name in values) if (!(name in attrs)) problems.push("Unknown attribute " + name)
+  return built
+}
+
+function describeTypes(types: readonly NodeType[]) {
+  return types.length ? types.map(t => t.name).join(", ") : "nothing"
+}
+
+function initAttrs(typeName: string, attrs?: {[name: string]: AttributeSpec}) {
   let result: {[name: string]: Attribute} = Object.create(null)
-  if (attrs) for (let name in attrs) result[name] = new Attribute(attrs[name])
+  if (attrs) for (let name in attrs) result[name] = new Attribute(typeName, name, attrs[name])
   return result
 }
 
@@ -66,7 +118,7 @@ export class NodeType {
     readonly spec: NodeSpec
   ) {
     this.groups = spec.group ? spec.group.split(" ") : []
-    this.attrs = initAttrs(spec.attrs)
+    this.attrs = initAttrs(name, spec.attrs)
     this.defaultAttrs = defaultAttrs(this.attrs)
 
     // Filled in later
@@ -128,6 +180,24 @@ export class NodeType {
     else return computeAttrs(this.attrs, attrs)
   }
 
+  /// Throws a RangeError if the given attributes don't pass the
+  /// [validation](#model.AttributeSpec.validate) of this node type's
+  /// attribute specs.
+  /// @internal
+  checkAttrs(attrs: Attrs) {
+    checkAttrs(this.attrs, attrs)
+  }
+
+  /// @internal
+  repairAttrs(attrs: Attrs, problems: string[]) {
+    return repairAttrs(this.attrs, attrs, problems)
+  }
+
+  /// @internal
+  attrProblems(attrs: Attrs) {
+    return attrProblems(this.attrs, attrs)
+  }
+
   /// Create a `Node` of this type. The given attributes are
   /// checked and defaulted (you can pass `null` to use the type's
   /// defaults entirely, if no required attributes exist). `content`
@@ -140,12 +210,14 @@ export class NodeType {
   }
 
   /// Like [`create`](#model.NodeType.create), but check the given content
-  /// against the node type's content restrictions, and throw an error
-  /// if it doesn't match.
+  /// and attributes against the node type's restrictions, and throw an
+  /// error if they don't match.
   createChecked(attrs: Attrs | null = null, content?: Fragment | Node | readonly Node[] | null, marks?: readonly Mark[]) {
     content = Fragment.from(content)
     this.checkContent(content)
-    return new Node(this, this.computeAttrs(attrs), content, Mark.setFrom(marks))
+    let computed = this.computeAttrs(attrs)
+    this.checkAttrs(computed)
+    return new Node(this, computed, content, Mark.setFrom(marks))
   }
 
   /// Like [`create`](#model.NodeType.create), but see if it is
@@ -186,6 +258,20 @@ export class NodeType {
       throw new RangeError(`Invalid content for node ${this.name}: ${content.toString().slice(0, 50)}`)
   }
 
+  /// Find the point at which the given content stops matching this
+  /// type's content expression (ignoring marks), and describe the
+  /// problem. Returns null when the content matches.
+  /// @internal
+  contentMismatch(content: Fragment): {match: ContentMatch, index: number, message: string} | null {
+    let match = this.contentMatch, index = 0
+    for (; index < content.childCount; index++) {
+      let child = content.child(index), next = match.matchType(child.type)
+      if (!next) return {match, index, message: `found ${child.type.name} where ${describeTypes(match.nextTypes)} was expected`}
+      match = next
+    }
+    return match.validEnd ? null : {match, index, message: `content ended where ${describeTypes(match.nextTypes)} was expected`}
+  }
+
   /// Check whether the given mark type is allowed in this node.
   allowsMarkType(markType: MarkType) {
     return this.markSet == null || this.markSet.indexOf(markType) > -1
@@ -228,13 +314,49 @@ export class NodeType {
 
 // Attribute descriptors
 
+function describeValue(value: any) {
+  return value === null ? "null" : typeof value == "string" ? JSON.stringify(value) : String(value)
+}
+
+function validateType(typeName: string, attrName: string, type: string) {
+  let types = type.split("|")
+  return (value: any) => {
+    let name = value === null ? "null" : typeof value
+    if (types.indexOf(name) < 0)
+      throw new RangeError(`Expected value of type ${types.join(" or ")} for attribute ${attrName} on type ${typeName}, got ${name}`)
+  }
+}
+
+function validateEnum(typeName: string, attrName: string, values: readonly any[]) {
+  return (value: any) => {
+    if (values.indexOf(value) < 0)
+      throw new RangeError(`Invalid value ${describeValue(value)} for attribute ${attrName} on type ${typeName}, expected one of ${values.map(describeValue).join(", ")}`)
+  }
+}
+
+function validateCustom(typeName: string, attrName: string, f: (value: any) => void) {
+  return (value: any) => {
+    try {
+      f(value)
+    } catch (e: any) {
+      throw new RangeError(`Invalid value for attribute ${attrName} on type ${typeName}: ${e && e.message || e}`)
+    }
+  }
+}
+
 class Attribute {
   hasDefault: boolean
   default: any
+  validate: undefined | ((value: any) => void)
 
-  constructor(options: AttributeSpec) {
+  constructor(typeName: string, attrName: string, options: AttributeSpec) {
     this.hasDefault = Object.prototype.hasOwnProperty.call(options, "default")
     this.default = options.default
+    let {validate} = options
+    this.validate = validate == null ? undefined
+      : typeof validate == "string" ? validateType(typeName, attrName, validate)
+      : Array.isArray(validate) ? validateEnum(typeName, attrName, validate)
+      : validateCustom(typeName, attrName, validate as (value: any) => void)
   }
 
   get isRequired() {
@@ -267,12 +389,27 @@ export class MarkType {
     /// The spec on which the type is based.
     readonly spec: MarkSpec
   ) {
-    this.attrs = initAttrs(spec.attrs)
+    this.attrs = initAttrs(name, spec.attrs)
     ;(this as any).excluded = null
     let defaults = defaultAttrs(this.attrs)
     this.instance = defaults ? new Mark(this, defaults) : null
   }
 
+  /// @internal
+  checkAttrs(attrs: Attrs) {
+    checkAttrs(this.attrs, attrs)
+  }
+
+  /// @internal
+  repairAttrs(attrs: Attrs, problems: string[]) {
+    return repairAttrs(this.attrs, attrs, problems)
+  }
+
+  /// @internal
+  attrProblems(attrs: Attrs) {
+    return attrProblems(this.attrs, attrs)
+  }
+
   /// Create a mark of this type. `attrs` may be `null` or an object
   /// containing only some of the mark's attributes. The others, if
   /// they have defaults, will be added.
@@ -333,6 +470,40 @@ export interface SchemaSpec<Nodes extends string = any, Marks extends string = a
   topNode?: string
 }
 
+/// Describes a set of changes to make to a schema, used by
+/// [`Schema.extend`](#model.Schema.extend).
+export interface SchemaExtension {
+  /// Node types to add or override. Specs for existing node types
+  /// replace the old spec, keeping the type's position in the
+  /// schema's order. New node types are added at the end, unless
+  /// `order` says otherwise.
+  nodes?: {[name: string]: NodeSpec}
+
+  /// Mark types to add or override. Like with `nodes`, overridden
+  /// marks keep their position (and thus their precedence), and new
+  /// marks are added at the end unless `order` says otherwise.
+  marks?: {[name: string]: MarkSpec}
+
+  /// Positions for new node or mark types, given as the name of an
+  /// existing (or earlier added) type that the new type should be
+  /// placed before or after. Since the order of types determines
+  /// parse rule priority and mark precedence, this can be used to
+  /// control those.
+  order?: {[name: string]: {before: string} | {after: string}}
+
+  /// Add node types to [groups](#model.NodeSpec.group), given as a
+  /// space-separated string of group names per node type name.
+  groups?: {[name: string]: string}
+
+  /// Amend the content expressions of node types. Each value is
+  /// either a new content expression, or a function that computes a
+  /// new expression from the old one.
+  content?: {[name: string]: string | ((content: string) => string)}
+
+  /// Change the name of the schema's default top node.
+  topNode?: string
+}
+
 /// A description of a node type, used when defining a schema.
 export interface NodeSpec {
   /// The content expression for this node, as described in the [schema
@@ -423,6 +594,10 @@ export interface NodeSpec {
   /// shouldn't override that in your text node spec.
   toDOM?: (node: Node) => DOMOutputSpec
 
+  /// Defines how nodes of this type are written by a [Markdown
+  /// serializer](#model.MarkdownSerializer^fromSchema).
+  toMarkdown?: MarkdownNodeSerializer
+
   /// Associates DOM parser information with this node, which can be
   /// used by [`DOMParser.fromSchema`](#model.DOMParser^fromSchema) to
   /// automatically derive a parser. The `node` field in the rules is
@@ -484,6 +659,10 @@ export interface MarkSpec {
   /// the top node.
   toDOM?: (mark: Mark, inline: boolean) => DOMOutputSpec
 
+  /// Defines how marks of this type are written by a [Markdown
+  /// serializer](#model.MarkdownSerializer^fromSchema).
+  toMarkdown?: MarkdownMarkSpec
+
   /// Associates DOM parser information with this mark (see the
   /// corresponding [node spec field](#model.NodeSpec.parseDOM)). The
   /// `mark` field in the rules is implied.
@@ -503,8 +682,67 @@ export interface AttributeSpec {
   /// provided whenever a node or mark of a type that has them is
   /// created.
   default?: any
+
+  /// Validates the values given for this attribute. This is checked
+  /// by [`createChecked`](#model.NodeType.createChecked),
+  /// [`Node.check`](#model.Node.check), and when deserializing nodes
+  /// and marks from JSON, but not by the unchecked `create` methods.
+  ///
+  /// May be a string holding a `|`-separated list of primitive types
+  /// (`"number"`, `"string"`, `"boolean"`, `"null"`, and
+  /// `"undefined"`), so that `"number|null"` describes a nullable
+  /// number, an array of allowed values (compared with `===`), or a
+  /// function that throws an error when given an invalid value. A
+  /// failed validation raises a `RangeError` that names the node or
+  /// mark type and the attribute.
+  validate?: string | readonly any[] | ((value: any) => void)
 }
 
+type PrimitiveTypes = {number: number, string: string, boolean: boolean, null: null, undefined: undefined}
+
+type TypeFromNames<Names extends string> =
+  Names extends `${infer First}|${infer Rest}` ? TypeFromNames<First> | TypeFromNames<Rest>
+  : Names extends keyof PrimitiveTypes ? PrimitiveTypes[Names] : any
+
+type Widen<T> = T extends string ? string : T extends number ? number : T extends boolean ? boolean : T
+
+/// The type of the values of an attribute with the given spec. For
+/// specs whose [`validate`](#model.AttributeSpec.validate) property
+/// is a string literal type (`"number|null"`) or an array of literal
+/// values, this is the type described by that. Otherwise, it is the
+/// (widened) type of the default value, or `any` when the attribute
+/// has no default. Declare specs with `as const` to keep TypeScript
+/// from widening their string literals.
+export type AttrValue<Spec extends AttributeSpec> =
+  Spec extends {readonly validate: infer V}
+    ? (V extends string ? TypeFromNames<V>
+       : V extends readonly (infer E)[] ? E
+       : Spec extends {readonly default: infer D} ? Widen<D> : any)
+  : Spec extends {readonly default: infer D} ? Widen<D> : any
+
+/// The attribute object type for a set of attribute specs.
+export type AttrsOf<Specs> =
+  Specs extends {readonly [name: string]: AttributeSpec} ? {readonly [K in keyof Specs]: AttrValue<Specs[K]>} : {}
+
+/// Map the names of the node types in a literal schema spec to their
+/// [attribute types](#model.AttrsOf).
+export type NodeAttrsOf<Spec extends {readonly nodes: {readonly [name: string]: NodeSpec}}> =
+  {[N in keyof Spec["nodes"]]: AttrsOf<Spec["nodes"][N]["attrs"]>}
+
+/// Map the names of the mark types in a literal schema spec to their
+/// [attribute types](#model.AttrsOf).
+export type MarkAttrsOf<Spec extends {readonly marks?: {readonly [name: string]: MarkSpec}}> =
+  Spec["marks"] extends {readonly [name: string]: MarkSpec}
+    ? {[N in keyof Spec["marks"]]: AttrsOf<Spec["marks"][N]["attrs"]>} : {}
+
+/// A node whose attributes have the given type. Nodes can be cast to
+/// this type after checking their node type, so that their
+/// attributes are typed.
+export type TypedNode<A> = Omit<Node, "attrs"> & {readonly attrs: A}
+
+/// A mark whose attributes have the given type.
+export type TypedMark<A> = Omit<Mark, "attrs"> & {readonly attrs: A}
+
 /// A document schema. Holds [node](#model.NodeType) and [mark
 /// type](#model.MarkType) objects for the nodes and marks that may
 /// occur in conforming documents, and provides functionality for
@@ -621,6 +859,222 @@ export class Schema<Nodes extends string = any, Marks extends string = any> {
     if (!found) throw new RangeError("Unknown node type: " + name)
     return found
   }
+
+  /// Convert this schema to a JSON-serializable representation. This
+  /// includes the node and mark names, in order, along with the
+  /// properties of their specs that can be represented as JSON
+  /// (content expressions, groups, flags like `inclusive` or
+  /// `spanning`, and attribute defaults and non-function
+  /// [validation](#model.AttributeSpec.validate)). Since JSON can't
+  /// represent `undefined`, an attribute that defaults to `undefined`
+  /// is stored with an `undefinedDefault: true` property instead of a
+  /// `default` property. Functions, such as
+  /// `toDOM`, and `parseDOM` rules are left out. These can be
+  /// provided again when [loading](#model.Schema^fromJSON) the schema.
+  toJSON(): any {
+    let nodes: {[name: string]: any} = {}, marks: {[name: string]: any} = {}
+    this.spec.nodes.forEach((name, spec) => nodes[name] = specToJSON(name, spec))
+    this.spec.marks.forEach((name, spec) => marks[name] = specToJSON(name, spec))
+    let json: any = {nodes, marks}
+    if (this.spec.topNode) json.topNode = this.spec.topNode
+    return json
+  }
+
+  /// Create a schema from its JSON representation. `hooks` can be
+  /// used to add properties that can't be represented as JSON, such
+  /// as rendering and parsing functions, to the specs of the node and
+  /// mark types with the given names.
+  static fromJSON(json: any, hooks: {
+    nodes?: {[name: string]: NodeSpec},
+    marks?: {[name: string]: MarkSpec}
+  } = {}): Schema {
+    if (!json || typeof json.nodes != "object" || (json.marks && typeof json.marks != "object"))
+      throw new RangeError("Invalid input for Schema.fromJSON")
+    let spec: SchemaSpec = {nodes: addHooks(specsFromJSON(json.nodes), hooks.nodes, "node"),
+                            marks: addHooks(specsFromJSON(json.marks || {}), hooks.marks, "mark")}
+    if (json.topNode) spec.topNode = json.topNode
+    return new Schema(spec)
+  }
+
+  /// Create a new schema by applying the given changes to this
+  /// schema's spec.
+  extend(extension: SchemaExtension): Schema {
+    let nodes = addSpecs(this.spec.nodes, extension.nodes, extension.order)
+    let marks = addSpecs(this.spec.marks, extension.marks, extension.order)
+    let groups = extension.groups
+    if (groups) for (let name in groups) {
+      let spec = nodes.get(name)
+      if (!spec) throw new RangeError("Can't add groups to unknown node type " + name)
+      let current = spec.group ? spec.group.split(" ") : []
+      for (let group of groups[name].split(" ")) if (group && current.indexOf(group) < 0) current.push(group)
+      nodes = nodes.update(name, Object.assign({}, spec, {group: current.join(" ")}))
+    }
+    let content = extension.content
+    if (content) for (let name in content) {
+      let spec = nodes.get(name), amend = content[name]
+      if (!spec) throw new RangeError("Can't amend the content of unknown node type " + name)
+      nodes = nodes.update(name, Object.assign({}, spec, {content: typeof amend == "string" ? amend : amend(spec.content || "")}))
+    }
+    let spec: SchemaSpec = Object.assign({}, this.spec, {nodes, marks})
+    if (extension.topNode) spec.topNode = extension.topNode
+    return new Schema(spec)
+  }
+
+  /// Combine several schemas into a single schema. Node and mark
+  /// types are taken from the schemas in order, with the specs of
+  /// later schemas overriding those of earlier ones for types that
+  /// appear in more than one. Types keep the position they had in the
+  /// first schema that defined them, and new types are placed before
+  /// the first type that follows them in their own schema that is
+  /// already present, so that the relative order of each schema's
+  /// types is preserved as far as possible. The top node is taken
+  /// from the first schema.
+  static merge(...schemas: readonly Schema[]): Schema {
+    if (!schemas.length) throw new RangeError("Schema.merge needs at least one schema")
+    let nodes = schemas[0].spec.nodes, marks = schemas[0].spec.marks
+    for (let i = 1; i < schemas.length; i++) {
+      nodes = mergeSpecs(nodes, schemas[i].spec.nodes)
+      marks = mergeSpecs(marks, schemas[i].spec.marks)
+    }
+    return new Schema(Object.assign({}, schemas[0].spec, {nodes, marks}))
+  }
+
+  /// Compare this schema to a new version of it, matching node and
+  /// mark types by name, and list the differences between them.
+  /// Changes that may make documents written under this schema
+  /// invalid in the new one, such as removed types, content
+  /// expressions that accept fewer sequences of nodes, marks that are
+  /// no longer allowed, or new required attributes, are marked as
+  /// [breaking](#model.SchemaChange.breaking). Attribute
+  /// [validation](#model.AttributeSpec.validate) is only compared
+  /// when it is given as a string of type names or an array of
+  /// values on both sides—changes to validation functions aren't
+  /// reported. Validation changes that only accept more values, such
+  /// as going from `"number"` to `"number|null"`, aren't breaking.
+  compare(newSchema: Schema): SchemaChange[] {
+    return compareSchemas(this, newSchema)
+  }
+
+  /// Try to load each of the given JSON documents in this schema,
+  /// and [validate](#model.Node.validate) them, returning a problem
+  /// report for each document that fails.
+  checkDocuments(docs: readonly any[]): DocumentProblem[] {
+    return checkDocuments(this, docs)
+  }
+
+  /// Generate the source of a TypeScript declaration file that
+  /// describes the attributes of this schema's node and mark types,
+  /// as derived by [`AttrValue`](#model.AttrValue) (but from the
+  /// runtime spec, so that string literal types aren't needed).
+  declarations(options: DeclarationOptions = {}): string {
+    return schemaDeclarations(this, options)
+  }
+}
+
+function keyAfter<T>(map: OrderedMap<T>, key: string) {
+  let found = false, next: string | null = null
+  map.forEach(name => {
+    if (found && next == null) next = name
+    if (name == key) found = true
+  })
+  return next
+}
+
+function addSpecs<T>(map: OrderedMap<T>, specs: {[name: string]: T} | undefined,
+                     order: SchemaExtension["order"] | undefined) {
+  if (specs) for (let name in specs) {
+    let spec = specs[name], place = order && order[name]
+    if (map.get(name) !== undefined) {
+      map = map.update(name, spec)
+    } else if (!place) {
+      map = map.addToEnd(name, spec)
+    } else {
+      let target = "before" in place ? place.before : place.after
+      if (map.get(target) === undefined) throw new RangeError(`Can't place ${name} relative to unknown type ${target}`)
+      let before = "before" in place ? target : keyAfter(map, target)
+      map = before == null ? map.addToEnd(name, spec) : map.addBefore(before, name, spec)
+    }
+  }
+  return map
+}
+
+function mergeSpecs<T>(map: OrderedMap<T>, add: OrderedMap<T>) {
+  let names: string[] = []
+  add.forEach(name => names.push(name))
+  names.forEach((name, i) => {
+    let spec = add.get(name)!
+    if (map.get(name) !== undefined) {
+      map = map.update(name, spec)
+      return
+    }
+    let before = null
+    for (let j = i + 1; j < names.length && before == null; j++) if (map.get(names[j]) !== undefined) before = names[j]
+    map = before == null ? map.addToEnd(name, spec) : map.addBefore(before, name, spec)
+  })
+  return map
+}
+
+function isJSONValue(value: any): boolean {
+  if (value === null || typeof value == "string" || typeof value == "number" || typeof value == "boolean") return true
+  if (Array.isArray(value)) return value.every(isJSONValue)
+  if (typeof value != "object" || Object.getPrototypeOf(value) != Object.prototype) return false
+  for (let prop in value) if (!isJSONValue(value[prop])) return false
+  return true
+}
+
+function specToJSON(name: string, spec: {[prop: string]: any}) {
+  let json: {[prop: string]: any} = {}
+  for (let prop in spec) {
+    let value = spec[prop]
+    if (prop == "attrs" && value) json.attrs = attrSpecsToJSON(name, value)
+    else if (prop != "parseDOM" && isJSONValue(value)) json[prop] = value
+  }
+  return json
+}
+
+function attrSpecsToJSON(typeName: string, attrs: {[name: string]: AttributeSpec}) {
+  let json: {[name: string]: any} = {}
+  for (let name in attrs) {
+    let spec = attrs[name], attr: {[prop: string]: any} = {}
+    if (Object.prototype.hasOwnProperty.call(spec, "default")) {
+      // JSON has no undefined, so such defaults are stored as a flag
+      if (spec.default === undefined) attr.undefinedDefault = true
+      else if (!isJSONValue(spec.default))
+        throw new RangeError(`Default value for attribute ${name} on type ${typeName} can not be converted to JSON`)
+      else attr.default = spec.default
+    }
+    if (typeof spec.validate == "string" || Array.isArray(spec.validate)) attr.validate = spec.validate
+    json[name] = attr
+  }
+  return json
+}
+
+function specsFromJSON(specs: {[name: string]: any}) {
+  let result: {[name: string]: any} = {}
+  for (let name in specs) {
+    let spec = specs[name], attrs = spec && spec.attrs
+    if (attrs && Object.keys(attrs).some(attr => attrs[attr] && attrs[attr].undefinedDefault)) {
+      let converted: {[name: string]: any} = {}
+      for (let attr in attrs) {
+        let attrSpec = converted[attr] = Object.assign({}, attrs[attr])
+        if (attrSpec.undefinedDefault) {
+          delete attrSpec.undefinedDefault
+          attrSpec.default = undefined
+        }
+      }
+      spec = Object.assign({}, spec, {attrs: converted})
+    }
+    result[name] = spec
+  }
+  return result
+}
+
+function addHooks(specs: {[name: string]: any}, hooks: {[name: string]: any} | undefined, kind: string) {
+  let result: {[name: string]: any} = {}
+  for (let name in specs) result[name] = hooks && hooks[name] ? Object.assign({}, specs[name], hooks[name]) : specs[name]
+  if (hooks) for (let name in hooks)
+    if (!(name in specs)) throw new RangeError(`Hook given for unknown ${kind} type ${name}`)
+  return result
 }
 
 function gatherMarks(schema: Schema, marks: readonly string[]) {
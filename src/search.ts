@@ -0,0 +1,105 @@
+import {Node} from "./node"
+import {NodeType} from "./schema"
+import {TextIndex} from "./text"
+
+/// Options for [`Node.search`](#model.Node.search).
+export interface SearchOptions {
+  /// When true, matching ignores case. Defaults to false.
+  ignoreCase?: boolean
+
+  /// When true, only matches that aren't directly preceded or
+  /// followed by a word character are returned.
+  wholeWord?: boolean
+
+  /// The start of the range to search in. Defaults to the start of
+  /// the node's content.
+  from?: number
+
+  /// The end of the range to search in. Defaults to the end of the
+  /// node's content. Only matches that lie entirely inside the range
+  /// are returned.
+  to?: number
+
+  /// Only search the text inside nodes of this type (or these
+  /// types), given as node types or names.
+  within?: NodeType | string | readonly (NodeType | string)[]
+
+  /// When true, the content of [code](#model.NodeSpec.code) nodes is
+  /// skipped.
+  skipCode?: boolean
+}
+
+/// A match found by [`Node.search`](#model.Node.search).
+export interface SearchMatch {
+  /// The start of the match.
+  from: number
+  /// The end of the match.
+  to: number
+  /// The matched text.
+  text: string
+  /// The text matched by the groups in a regular expression, or the
+  /// empty array for string queries.
+  groups: readonly (string | undefined)[]
+}
+
+// Inline leaf nodes without leaf text are represented by an object
+// replacement character, so that matches don't run across them.
+function leafText(node: Node) {
+  return node.type.spec.leafText ? node.type.spec.leafText(node) : "\ufffc"
+}
+
+function isWordChar(ch: string) {
+  return /\w/.test(ch) || ch.toLowerCase() != ch.toUpperCase()
+}
+
+function escapeRegExp(str: string) {
+  return str.replace(/[\\^$.*+?()[\]{}|]/g, "\\$&")
+}
+
+export function searchNode(node: Node, query: string | RegExp, options: SearchOptions): SearchMatch[] {
+  let flags = "g" + (options.ignoreCase ? "i" : "")
+  if (typeof query != "string") flags += query.flags.replace(/[gyi]/g, "")
+  else if (!query) return []
+  let re = new RegExp(typeof query == "string" ? escapeRegExp(query) : query.source, flags)
+  let from = options.from == null ? 0 : options.from, to = options.to == null ? node.content.size : options.to
+  if (from < 0 || to > node.content.size || from > to) throw new RangeError(`Invalid search range ${from}-${to}`)
+  let within = null
+  if (options.within) {
+    within = (Array.isArray(options.within) ? options.within : [options.within]).map((type: NodeType | string) => {
+      if (typeof type != "string") return type
+      let found = node.type.schema.nodes[type]
+      if (!found) throw new RangeError("Unknown node type: " + type)
+      return found
+    })
+  }
+
+  let result: SearchMatch[] = []
+  let searchBlock = (block: Node, pos: number) => {
+    let index = new TextIndex(block, null, leafText), text = index.text, match
+    re.lastIndex = from > pos ? index.posToTextOffset(from - pos) : 0
+    while (match = re.exec(text)) {
+      let start = match.index, end = start + match[0].length
+      if (start == end) { re.lastIndex++; continue }
+      if (options.wholeWord && (start > 0 && isWordChar(text.charAt(start - 1)) ||
+                                end < text.length && isWordChar(text.charAt(end)))) continue
+      let matchFrom = pos + index.textOffsetToPos(start), matchTo = pos + index.textOffsetToPos(end, -1)
+      if (matchFrom < from) continue
+      if (matchTo > to) break
+      result.push({from: matchFrom, to: matchTo, text: match[0], groups: match.slice(1)})
+    }
+  }
+  let scan = (parent: Node, start: number, inScope: boolean) => {
+    if (parent.inlineContent) {
+      if (inScope) searchBlock(parent, start)
+      return
+    }
+    parent.forEach((child, offset) => {
+      let childStart = start + offset
+      if (childStart >= to || childStart + child.nodeSize <= from || child.isLeaf) return
+      if (options.skipCode && child.type.spec.code) return
+      scan(child, childStart + 1, inScope || within!.indexOf(child.type) > -1)
+    })
+  }
+  scan(node, 0, !within)
+  return result
+}
@@ -0,0 +1,142 @@
+import {Node} from "./node"
+import {ResolvedPos} from "./resolvedpos"
+
+/// The units of text that
+/// [`ResolvedPos.textBoundary`](#model.ResolvedPos.textBoundary) can
+/// move by.
+export type TextUnit = "grapheme" | "word" | "sentence"
+
+// A segment of a textblock's text. `word` is set for segments that
+// contain a word, as opposed to whitespace or punctuation.
+type Segment = {from: number, to: number, word: boolean}
+
+// The parts of `Intl.Segmenter` that are used here, which aren't
+// part of the standard library types this package builds against.
+interface Segmenter {
+  segment(text: string): Iterable<{index: number, segment: string, isWordLike?: boolean}>
+}
+
+type SegmenterConstructor = new (locale: undefined, options: {granularity: TextUnit}) => Segmenter
+
+const segmenters: {[unit: string]: Segmenter} = Object.create(null)
+
+function getSegmenter(unit: TextUnit): Segmenter | null {
+  let Segmenter: SegmenterConstructor | undefined =
+    typeof Intl != "undefined" ? (Intl as {Segmenter?: SegmenterConstructor}).Segmenter : undefined
+  if (!Segmenter) return null
+  return segmenters[unit] || (segmenters[unit] = new Segmenter(undefined, {granularity: unit}))
+}
+
+function segmentText(text: string, unit: TextUnit): Segment[] {
+  let segmenter = getSegmenter(unit)
+  if (!segmenter) return unit == "grapheme" ? graphemes(text) : unit == "word" ? words(text) : sentences(text)
+  let result: Segment[] = []
+  for (let seg of segmenter.segment(text))
+    result.push({from: seg.index, to: seg.index + seg.segment.length, word: seg.isWordLike !== false})
+  return result
+}
+
+// The fallbacks used when `Intl.Segmenter` isn't available only
+// handle the most common cases: combining marks, variation
+// selectors, emoji modifiers and ZWJ sequences, flags, and words and
+// sentences in scripts that separate them with spaces.
+
+const extendChar = /[\u0300-\u036f\u0483-\u0489\u0591-\u05bd\u064b-\u065f\u0900-\u0903\u093a-\u094f\u1ab0-\u1aff\u1dc0-\u1dff\u200c\u200d\u20d0-\u20ff\ufe00-\ufe0f\ufe20-\ufe2f]/
+const emojiModifier = /^\ud83c[\udffb-\udfff]/, regionalIndicator = /^\ud83c[\udde6-\uddff]/
+
+function charLength(text: string, pos: number) {
+  let code = text.charCodeAt(pos)
+  return code >= 0xd800 && code < 0xdc00 && pos + 1 < text.length ? 2 : 1
+}
+
+function graphemes(text: string): Segment[] {
+  let result: Segment[] = []
+  for (let pos = 0; pos < text.length;) {
+    let start = pos, flag = regionalIndicator.test(text.slice(pos))
+    pos += charLength(text, pos)
+    if (flag && regionalIndicator.test(text.slice(pos))) pos += 2
+    for (;;) {
+      if (pos < text.length && extendChar.test(text.charAt(pos))) {
+        pos += text.charCodeAt(pos) == 0x200d && pos + 1 < text.length ? 1 + charLength(text, pos + 1) : 1
+      } else if (emojiModifier.test(text.slice(pos))) {
+        pos += 2
+      } else {
+        break
+      }
+    }
+    result.push({from: start, to: pos, word: false})
+  }
+  return result
+}
+
+function isWordChar(ch: string) {
+  return /\w/.test(ch) || ch.toLowerCase() != ch.toUpperCase() || extendChar.test(ch)
+}
+
+function words(text: string): Segment[] {
+  let result: Segment[] = []
+  for (let pos = 0; pos < text.length;) {
+    let start = pos, word = isWordChar(text.charAt(pos))
+    pos++
+    if (word) {
+      while (pos < text.length && (isWordChar(text.charAt(pos)) ||
+                                   /['\u2019.]/.test(text.charAt(pos)) && isWordChar(text.charAt(pos + 1)))) pos++
+    } else if (/\s/.test(text.charAt(start))) {
+      while (pos < text.length && /\s/.test(text.charAt(pos))) pos++
+    }
+    result.push({from: start, to: pos, word})
+  }
+  return result
+}
+
+function sentences(text: string): Segment[] {
+  let result: Segment[] = [], start = 0, end = /[.!?\u3002]+['"\u2019\u201d)\]]*(\s+|$)/g
+  while (start < text.length && end.exec(text)) {
+    result.push({from: start, to: end.lastIndex, word: false})
+    start = end.lastIndex
+  }
+  if (start < text.length) result.push({from: start, to: text.length, word: false})
+  return result
+}
+
+// Find the nearest textblock after (`dir` > 0) or before the given
+// position, and return the position at its start or end.
+function adjacentTextblock(doc: Node, pos: number, dir: number): number | null {
+  let found: number | null = null
+  if (dir > 0) {
+    doc.nodesBetween(pos, doc.content.size, (node, start) => {
+      if (found != null) return false
+      if (node.isTextblock && start >= pos) found = start + 1
+    })
+  } else {
+    doc.nodesBetween(0, pos, (node, start) => {
+      if (node.isTextblock && start + node.nodeSize <= pos) found = start + node.nodeSize - 1
+    })
+  }
+  return found
+}
+
+export function textBoundary($pos: ResolvedPos, unit: TextUnit, dir: number): ResolvedPos | null {
+  let parent = $pos.parent, doc = $pos.doc
+  if (!parent.inlineContent) {
+    let found = adjacentTextblock(doc, $pos.pos, dir)
+    return found == null ? null : doc.resolve(found)
+  }
+  // Inline leaf nodes are represented by a single object replacement
+  // character, so that offsets in the text equal offsets in the
+  // parent.
+  let text = parent.textBetween(0, parent.content.size, null, "\ufffc")
+  let offset = $pos.parentOffset, segments = segmentText(text, unit), found = -1
+  if (dir > 0) {
+    for (let seg of segments) if (seg.to > offset && (unit != "word" || seg.word)) { found = seg.to; break }
+  } else {
+    for (let i = segments.length - 1; i >= 0; i--) {
+      let seg = segments[i]
+      if (seg.from < offset && (unit != "word" || seg.word)) { found = seg.from; break }
+    }
+  }
+  if (found < 0 && (dir > 0 ? offset < text.length : offset > 0)) found = dir > 0 ? text.length : 0
+  if (found > -1) return doc.resolve($pos.start() + found)
+  let next = adjacentTextblock(doc, dir > 0 ? $pos.after() : $pos.before(), dir)
+  return next == null ? null : doc.resolve(next)
+}
@@ -0,0 +1,130 @@
+// Conditions on inline style values, as used by the `style` property
+// of parse rules.
+
+export type StyleTest = {
+  prop: string,
+  // One of "=", "!=", "<", "<=", ">", ">=", "~", or "" when the rule
+  // only names a property.
+  op: string,
+  value: string,
+  // For "~" conditions, the regular expression.
+  re: RegExp | null
+}
+
+export function parseStyleTest(style: string): StyleTest {
+  let m = /^\s*([\w-]+)\s*(?:(!=|<=|>=|[=<>~])(.*))?$/.exec(style)
+  // Strings that don't have the form of a condition only match a
+  // property with exactly that name
+  if (!m) return {prop: style, op: "", value: "", re: null}
+  let op = m[2] || "", value = op ? m[3].trim() : ""
+  if (/[<>]/.test(op) && !numericValue(m[1], value))
+    throw new SyntaxError("Style condition '" + style + "' doesn't compare against a number")
+  return {prop: m[1], op, value, re: op == "~" ? new RegExp(value, "i") : null}
+}
+
+export function testStyle(test: StyleTest, value: string): boolean {
+  switch (test.op) {
+    case "": return true
+    case "~": return test.re!.test(value)
+    case "=": return styleValuesEqual(test.prop, test.value, value)
+    case "!=": return !styleValuesEqual(test.prop, test.value, value)
+  }
+  let num = numericValue(test.prop, value), limit = numericValue(test.prop, test.value)
+  if (!num || !limit || limit.unit && num.unit != limit.unit) return false
+  switch (test.op) {
+    case "<": return num.value < limit.value
+    case "<=": return num.value <= limit.value
+    case ">": return num.value > limit.value
+    default: return num.value >= limit.value
+  }
+}
+
+function styleValuesEqual(prop: string, a: string, b: string) {
+  if (a == b) return true
+  let colorA = normalizeColor(a), colorB = colorA && normalizeColor(b)
+  if (colorA) return colorA == colorB
+  let numA = numericValue(prop, a), numB = numA && numericValue(prop, b)
+  return !!numA && !!numB && numA.value == numB.value && (numA.unit == numB.unit || !numA.value)
+}
+
+const fontWeights: {[name: string]: number} = {normal: 400, bold: 700}
+
+function numericValue(prop: string, value: string) {
+  value = value.trim().toLowerCase()
+  if (prop == "font-weight" && fontWeights.hasOwnProperty(value)) return {value: fontWeights[value], unit: ""}
+  let m = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)([a-z%]*)$/.exec(value)
+  return m ? {value: parseFloat(m[1]), unit: m[2]} : null
+}
+
+let namedColors: {[name: string]: string} | null = null
+
+const colorNames = "aliceblue f0f8ff antiquewhite faebd7 aqua 00ffff aquamarine 7fffd4 azure f0ffff beige f5f5dc " +
+  "bisque ffe4c4 black 000000 blanchedalmond ffebcd blue 0000ff blueviolet 8a2be2 brown a52a2a burlywood deb887 " +
+  "cadetblue 5f9ea0 chartreuse 7fff00 chocolate d2691e coral ff7f50 cornflowerblue 6495ed cornsilk fff8dc " +
+  "crimson dc143c cyan 00ffff darkblue 00008b darkcyan 008b8b darkgoldenrod b8860b darkgray a9a9a9 " +
+  "darkgreen 006400 darkgrey a9a9a9 darkkhaki bdb76b darkmagenta 8b008b darkolivegreen 556b2f darkorange ff8c00 " +
+  "darkorchid 9932cc darkred 8b0000 darksalmon e9967a darkseagreen 8fbc8f darkslateblue 483d8b " +
+  "darkslategray 2f4f4f darkslategrey 2f4f4f darkturquoise 00ced1 darkviolet 9400d3 deeppink ff1493 " +
+  "deepskyblue 00bfff dimgray 696969 dimgrey 696969 dodgerblue 1e90ff firebrick b22222 floralwhite fffaf0 " +
+  "forestgreen 228b22 fuchsia ff00ff gainsboro dcdcdc ghostwhite f8f8ff gold ffd700 goldenrod daa520 " +
+  "gray 808080 green 008000 greenyellow adff2f grey 808080 honeydew f0fff0 hotpink ff69b4 indianred cd5c5c " +
+  "indigo 4b0082 ivory fffff0 khaki f0e68c lavender e6e6fa lavenderblush fff0f5 lawngreen 7cfc00 " +
+  "lemonchiffon fffacd lightblue add8e6 lightcoral f08080 lightcyan e0ffff lightgoldenrodyellow fafad2 " +
+  "lightgray d3d3d3 lightgreen 90ee90 lightgrey d3d3d3 lightpink ffb6c1 lightsalmon ffa07a lightseagreen 20b2aa " +
+  "lightskyblue 87cefa lightslategray 778899 lightslategrey 778899 lightsteelblue b0c4de lightyellow ffffe0 " +
+  "lime 00ff00 limegreen 32cd32 linen faf0e6 magenta ff00ff maroon 800000 mediumaquamarine 66cdaa " +
+  "mediumblue 0000cd mediumorchid ba55d3 mediumpurple 9370db mediumseagreen 3cb371 mediumslateblue 7b68ee " +
+  "mediumspringgreen 00fa9a mediumturquoise 48d1cc mediumvioletred c71585 midnightblue 191970 mintcream f5fffa " +
+  "mistyrose ffe4e1 moccasin ffe4b5 navajowhite ffdead navy 000080 oldlace fdf5e6 olive 808000 olivedrab 6b8e23 " +
+  "orange ffa500 orangered ff4500 orchid da70d6 palegoldenrod eee8aa palegreen 98fb98 paleturquoise afeeee " +
+  "palevioletred db7093 papayawhip ffefd5 peachpuff ffdab9 peru cd853f pink ffc0cb plum dda0dd " +
+  "powderblue b0e0e6 purple 800080 rebeccapurple 663399 red ff0000 rosybrown bc8f8f royalblue 4169e1 " +
+  "saddlebrown 8b4513 salmon fa8072 sandybrown f4a460 seagreen 2e8b57 seashell fff5ee sienna a0522d " +
+  "silver c0c0c0 skyblue 87ceeb slateblue 6a5acd slategray 708090 slategrey 708090 snow fffafa " +
+  "springgreen 00ff7f steelblue 4682b4 tan d2b48c teal 008080 thistle d8bfd8 tomato ff6347 " +
+  "turquoise 40e0d0 violet ee82ee wheat f5deb3 white ffffff whitesmoke f5f5f5 yellow ffff00 yellowgreen 9acd32 " +
+  "transparent 00000000"
+
+function hex(n: number) {
+  let str = Math.round(Math.max(0, Math.min(255, n))).toString(16)
+  return str.length == 1 ? "0" + str : str
+}
+
+function channel(str: string, max: number) {
+  return /%$/.test(str) ? parseFloat(str) / 100 * max : parseFloat(str)
+}
+
+// Normalize a CSS color value given in hex, `rgb()`/`rgba()`,
+// `hsl()`/`hsla()`, or named notation to a lower-case `#rrggbb` (or
+// `#rrggbbaa` for translucent colors) string. Returns null for
+// values that aren't colors.
+export function normalizeColor(value: string): string | null {
+  value = value.trim().toLowerCase()
+  let m, result
+  if (m = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.exec(value)) {
+    result = m[1].length > 4 ? m[1] : m[1].replace(/./g, "$&$&")
+  } else if (m = /^(rgba?|hsla?)\(\s*([^\s,)]+)\s*,?\s*([^\s,)]+)\s*,?\s*([^\s,/)]+)\s*(?:[,/]\s*([^\s)]+)\s*)?\)$/.exec(value)) {
+    let rgb
+    if (m[1].charAt(0) == "r") {
+      rgb = [channel(m[2], 255), channel(m[3], 255), channel(m[4], 255)]
+    } else {
+      let h = ((parseFloat(m[2]) % 360) + 360) % 360 / 60, s = channel(m[3], 1), l = channel(m[4], 1)
+      let c = (1 - Math.abs(2 * l - 1)) * s, x = c * (1 - Math.abs(h % 2 - 1)), base = l - c / 2
+      let parts = h < 1 ? [c, x, 0] : h < 2 ? [x, c, 0] : h < 3 ? [0, c, x] : h < 4 ? [0, x, c] : h < 5 ? [x, 0, c] : [c, 0, x]
+      rgb = parts.map(v => (v + base) * 255)
+    }
+    if (rgb.some(isNaN)) return null
+    result = rgb.map(hex).join("")
+    if (m[5]) result += hex(channel(m[5], 1) * 255)
+  } else {
+    if (!namedColors) {
+      namedColors = Object.create(null)
+      let words = colorNames.split(" ")
+      for (let i = 0; i < words.length; i += 2) namedColors![words[i]] = words[i + 1]
+    }
+    result = namedColors![value]
+    if (!result) return null
+  }
+  if (result.length == 8 && /ff$/.test(result)) result = result.slice(0, 6)
+  return "#" + result
+}
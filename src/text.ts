@@ -0,0 +1,276 @@
+import {Node} from "./node"
+
+/// Options for [`Node.exportText`](#model.Node.exportText).
+export interface TextExportOptions {
+  /// The separator written between sibling block nodes. Defaults to
+  /// `"\n"`.
+  blockSeparator?: string
+
+  /// Separators to use after block nodes of specific types, by node
+  /// type name, overriding `blockSeparator`. For example
+  /// `{paragraph: "\n\n"}` puts a blank line after paragraphs.
+  separators?: {[nodeType: string]: string}
+
+  /// The markers written before the items of lists, by list node
+  /// type name. Each value is either a string or a function that
+  /// computes the marker for the item at the given index. Continuation
+  /// lines of items are indented by the width of their marker. By
+  /// default, nodes named `bullet_list` use `"• "`, and nodes named
+  /// `ordered_list` are numbered from their `order` attribute. Pass
+  /// an empty object to leave out list markers.
+  listMarkers?: {[nodeType: string]: string | ((index: number, list: Node) => string)}
+
+  /// The text to use for non-text leaf nodes. Defaults to the
+  /// node's [`leafText`](#model.NodeSpec.leafText), or the empty
+  /// string.
+  leafText?: (node: Node) => string
+
+  /// When given, lines longer than this are wrapped at whitespace.
+  /// Words that don't fit on a line by themselves are not broken up.
+  wrap?: number
+}
+
+/// The result of [exporting](#model.Node.exportText) a node's content
+/// as plain text.
+export class TextExport {
+  /// @internal
+  constructor(
+    /// The exported text.
+    readonly text: string,
+    /// The position that each character in the text corresponds to,
+    /// relative to the start of the exported node's content (so for a
+    /// document, these are document positions). Has an extra element
+    /// at the end, holding the position at the end of the text.
+    /// Characters that were added by the exporter, such as block
+    /// separators and list markers, are mapped to the position of the
+    /// content that follows them.
+    readonly positions: readonly number[]
+  ) {}
+
+  /// Get the position that corresponds to the given offset in the
+  /// text.
+  posAt(offset: number): number {
+    if (offset < 0 || offset > this.text.length) throw new RangeError(`Offset ${offset} outside of exported text`)
+    return this.positions[offset]
+  }
+}
+
+const defaultListMarkers: {[nodeType: string]: string | ((index: number, list: Node) => string)} = {
+  bullet_list: "• ",
+  ordered_list: (index, list) => (list.attrs.order == null ? 1 : list.attrs.order) + index + ". "
+}
+
+type Line = {text: string, positions: number[]}
+
+class TextExporter {
+  text = ""
+  positions: number[] = []
+  listMarkers: {[nodeType: string]: string | ((index: number, list: Node) => string)}
+
+  constructor(readonly options: TextExportOptions) {
+    this.listMarkers = options.listMarkers || defaultListMarkers
+  }
+
+  // Write generated text, which is mapped to the position of the
+  // next content.
+  add(text: string, pos: number | null) {
+    this.text += text
+    for (let i = 0; i < text.length; i++) this.positions.push(pos == null ? -1 : pos)
+  }
+
+  leafText(node: Node) {
+    return this.options.leafText ? this.options.leafText(node) : node.type.spec.leafText ? node.type.spec.leafText(node) : ""
+  }
+
+  // Export a block node's content. `first` is the prefix for the
+  // first line written, `indent` the one for further lines.
+  block(node: Node, pos: number, first: string, indent: string) {
+    if (node.inlineContent) {
+      this.lines(inlineLine(node, pos, this), first, indent)
+      return
+    }
+    let marker = this.listMarkers[node.type.name]
+    let prev: Node | null = null
+    node.forEach((child, offset, index) => {
+      let childPos = pos + offset
+      if (prev) {
+        let sep = this.options.separators && this.options.separators[prev.type.name]
+        this.add(sep != null ? sep : this.options.blockSeparator != null ? this.options.blockSeparator : "\n", null)
+      }
+      let childFirst = index ? indent : first, childIndent = indent
+      if (marker != null) {
+        let text = typeof marker == "string" ? marker : marker(index, node)
+        childFirst += text
+        childIndent += " ".repeat(text.length)
+      }
+      if (child.isLeaf) {
+        let text = child.isText ? child.text! : this.leafText(child)
+        let line: Line = {text, positions: []}
+        for (let i = 0; i < text.length; i++) line.positions.push(child.isText ? childPos + i : childPos)
+        this.lines(line, childFirst, childIndent)
+      } else {
+        this.block(child, childPos + 1, childFirst, childIndent)
+      }
+      prev = child
+    })
+  }
+
+  // Write the lines of a textblock, wrapping them when needed.
+  lines(line: Line, first: string, indent: string) {
+    let wrap = this.options.wrap, start = 0
+    for (let lineNo = 0;; lineNo++) {
+      let prefix = lineNo ? indent : first
+      let end = line.text.indexOf("\n", start)
+      if (end < 0) end = line.text.length
+      if (wrap && end - start + prefix.length > wrap) {
+        let limit = start + Math.max(0, wrap - prefix.length), cut = -1
+        for (let i = limit; i > start; i--) if (/\s/.test(line.text.charAt(i))) { cut = i; break }
+        if (cut < 0) {
+          let next = line.text.slice(limit, end).search(/\s/)
+          if (next > -1) cut = limit + next
+        }
+        if (cut > -1) end = cut
+      }
+      this.add(prefix, null)
+      for (let i = start; i < end; i++) this.add(line.text.charAt(i), line.positions[i])
+      if (end == line.text.length) break
+      // The newline or the whitespace that was replaced by a line
+      // break maps to its own position.
+      this.add("\n", line.positions[end])
+      start = end + 1
+    }
+  }
+
+  finish(end: number) {
+    let positions = this.positions
+    positions.push(end)
+    for (let i = positions.length - 2; i >= 0; i--) if (positions[i] < 0) positions[i] = positions[i + 1]
+    return new TextExport(this.text, positions)
+  }
+}
+
+function inlineLine(node: Node, pos: number, exporter: TextExporter): Line {
+  let line: Line = {text: "", positions: []}
+  node.forEach((child, offset) => {
+    let text = child.isText ? child.text! : exporter.leafText(child)
+    for (let i = 0; i < text.length; i++) line.positions.push(child.isText ? pos + offset + i : pos + offset)
+    line.text += text
+  })
+  return line
+}
+
+export function exportText(node: Node, options: TextExportOptions) {
+  let exporter = new TextExporter(options)
+  exporter.block(node, 0, "", "")
+  return exporter.finish(node.content.size)
+}
+
+const TEXT = 0, LEAF = 1, SEPARATOR = 2
+
+/// An index that converts between offsets in the text produced by
+/// [`textBetween`](#model.Node.textBetween) for a node's whole
+/// content and positions in that node, in logarithmic time.
+/// Positions are relative to the start of the node's content, so
+/// for a document they are document positions.
+export class TextIndex {
+  /// The indexed text, which is the same as the result of
+  /// `node.textBetween(0, node.content.size, blockSeparator,
+  /// leafText)`.
+  readonly text: string
+  // Each segment of the text is a text node's text, a leaf's text, or
+  // a block separator. These hold the offset in the text, the
+  // position in the node, length, and kind of each segment.
+  /// @internal
+  offsets: number[] = []
+  /// @internal
+  positions: number[] = []
+  /// @internal
+  lengths: number[] = []
+  /// @internal
+  kinds: number[] = []
+
+  /// Build an index for the given node's content, using the given
+  /// block separator and leaf text, which work as in
+  /// [`textBetween`](#model.Node.textBetween).
+  constructor(
+    /// The indexed node.
+    readonly node: Node,
+    blockSeparator?: string | null,
+    leafText?: string | null | ((leafNode: Node) => string)
+  ) {
+    let text = "", separated = true
+    let add = (value: string, pos: number, kind: number) => {
+      if (!value) return
+      this.offsets.push(text.length)
+      this.positions.push(pos)
+      this.lengths.push(value.length)
+      this.kinds.push(kind)
+      text += value
+    }
+    node.content.nodesBetween(0, node.content.size, (node, pos) => {
+      if (node.isText) {
+        add(node.text!, pos, TEXT)
+        separated = !blockSeparator
+      } else if (node.isLeaf) {
+        add(leafText ? (typeof leafText == "function" ? leafText(node) : leafText)
+            : node.type.spec.leafText ? node.type.spec.leafText(node) : "", pos, LEAF)
+        separated = !blockSeparator
+      } else if (!separated && node.isBlock) {
+        add(blockSeparator!, pos, SEPARATOR)
+        separated = true
+      }
+    }, 0)
+    this.text = text
+  }
+
+  /// @internal
+  segmentEnd(i: number) {
+    let kind = this.kinds[i]
+    return this.positions[i] + (kind == TEXT ? this.lengths[i] : kind == LEAF ? 1 : 0)
+  }
+
+  /// Convert an offset in the text to a position in the node.
+  /// Offsets that fall inside a leaf node's text or a block separator
+  /// map to the position before that node. At the boundary between
+  /// two segments of text, `assoc` determines whether the offset is
+  /// associated with the text after it (the default) or before it.
+  textOffsetToPos(offset: number, assoc = 1): number {
+    if (offset < 0 || offset > this.text.length) throw new RangeError(`Text offset ${offset} out of range`)
+    let count = this.offsets.length
+    if (!count) return 0
+    if (offset == this.text.length) return this.segmentEnd(count - 1)
+    // Find the last segment that starts at or before the offset
+    let lo = 0, hi = count - 1
+    while (lo < hi) {
+      let mid = (lo + hi + 1) >> 1
+      if (this.offsets[mid] <= offset) lo = mid
+      else hi = mid - 1
+    }
+    if (assoc < 0 && lo > 0 && this.offsets[lo] == offset) return this.segmentEnd(lo - 1)
+    return this.positions[lo] + (this.kinds[lo] == TEXT ? offset - this.offsets[lo] : 0)
+  }
+
+  /// Convert a position in the node to an offset in the text.
+  /// Positions that don't correspond to a place in the text, such as
+  /// positions between blocks, map to the offset of the text after
+  /// them when `assoc` is positive (the default), or the text before
+  /// them otherwise.
+  posToTextOffset(pos: number, assoc = 1): number {
+    if (pos < 0 || pos > this.node.content.size) throw new RangeError(`Position ${pos} out of range`)
+    // Find the first text or leaf segment that ends at or after pos
+    let count = this.offsets.length, lo = 0, hi = count
+    while (lo < hi) {
+      let mid = (lo + hi) >> 1
+      if (this.segmentEnd(mid) < pos) lo = mid + 1
+      else hi = mid
+    }
+    if (lo == count) return this.text.length
+    let start = this.positions[lo], kind = this.kinds[lo]
+    if (kind == TEXT && pos >= start) return this.offsets[lo] + (pos - start)
+    if (kind == LEAF && pos > start) return this.offsets[lo] + this.lengths[lo]
+    if (pos == start && kind != SEPARATOR) return this.offsets[lo]
+    // pos lies before this segment, outside of any text
+    if (assoc > 0 || lo == 0) return this.offsets[lo]
+    return this.offsets[lo - 1] + this.lengths[lo - 1]
+  }
+}
@@ -3,6 +3,7 @@ import {Node} from "./node"
 import {Schema, NodeType, MarkType} from "./schema"
 import {Mark} from "./mark"
 import {DOMNode} from "./dom"
+import {htmlDocument, serializeHTML} from "./html"
 
 /// A description of a DOM structure. Can be either a string, which is
 /// interpreted as a text node, a DOM node, which is interpreted as
@@ -102,6 +103,30 @@ export class DOMSerializer {
     return dom
   }
 
+  /// Serialize the content of this fragment to an HTML string. This
+  /// walks the same output specs as
+  /// [`serializeFragment`](#model.DOMSerializer.serializeFragment),
+  /// but doesn't require a DOM implementation, which makes it usable
+  /// for server-side rendering. Specs that return actual DOM nodes are
+  /// only supported when those nodes have no content hole and can be
+  /// printed through their `outerHTML` property.
+  ///
+  /// Like browsers do, this prints the text content of raw text
+  /// elements such as `<script>` and `<style>` without escaping it,
+  /// and raises a `RangeError` when that content contains the
+  /// element's closing tag. When node attributes or text from
+  /// untrusted sources can end up inside such elements, make sure
+  /// your output specs sanitize them.
+  serializeFragmentToHTML(fragment: Fragment): string {
+    return serializeHTML(this.serializeFragment(fragment, {document: htmlDocument}))
+  }
+
+  /// Serialize a node, including its marks, to an HTML string. See
+  /// [`serializeFragmentToHTML`](#model.DOMSerializer.serializeFragmentToHTML).
+  serializeNodeToHTML(node: Node): string {
+    return serializeHTML(this.serializeNode(node, {document: htmlDocument}))
+  }
+
   /// @internal
   serializeMark(mark: Mark, inline: boolean, options: {document?: Document} = {}) {
     let toDOM = this.marks[mark.type.name]
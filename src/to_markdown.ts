@@ -0,0 +1,433 @@
+import {Node} from "./node"
+import {Mark} from "./mark"
+import {Schema} from "./schema"
+import {punctuation} from "./from_markdown"
+
+/// A function that serializes a node to Markdown by calling methods
+/// on the serializer state. `parent` and `index` give the node's
+/// position in its parent.
+export type MarkdownNodeSerializer = (state: MarkdownSerializerState, node: Node, parent: Node, index: number) => void
+
+/// Describes how a mark is serialized to Markdown.
+export interface MarkdownMarkSpec {
+  /// The string to write before marked content, or a function that
+  /// computes it. `parent` and `index` give the position of the
+  /// first marked node.
+  open: string | ((state: MarkdownSerializerState, mark: Mark, parent: Node, index: number) => string)
+  /// The string to write after marked content, or a function that
+  /// computes it. `parent` and `index` give the position of the last
+  /// marked node.
+  close: string | ((state: MarkdownSerializerState, mark: Mark, parent: Node, index: number) => string)
+  /// When false, marked text isn't escaped. Marks like this, such as
+  /// code, are placed inside other marks. Defaults to true.
+  escape?: boolean
+}
+
+/// A Markdown serializer turns documents into Markdown text. It is
+/// configured with a function for each node type and a [mark
+/// spec](#model.MarkdownMarkSpec) for each mark type.
+export class MarkdownSerializer {
+  /// Create a serializer. Marks that don't have a spec are left out
+  /// of the output (but their content is kept).
+  constructor(
+    /// The node serializers, by node type name.
+    readonly nodes: {readonly [node: string]: MarkdownNodeSerializer},
+    /// The mark specs, by mark type name.
+    readonly marks: {readonly [mark: string]: MarkdownMarkSpec}
+  ) {}
+
+  /// Serialize the content of the given node to Markdown.
+  serialize(doc: Node): string {
+    let state = new MarkdownSerializerState(this)
+    state.renderContent(doc)
+    return state.out
+  }
+
+  /// Build a serializer from the [`toMarkdown`](#model.NodeSpec.toMarkdown)
+  /// properties in a schema's node and mark specs. Types without such
+  /// a property that have the name of a common Markdown construct
+  /// (`paragraph`, `heading`, `bullet_list`, `em`, `link`, and so on)
+  /// are serialized as that construct. Other textblocks are written
+  /// as paragraphs, or as fenced code blocks when their spec sets
+  /// [`code`](#model.NodeSpec.code), other nodes as their content or
+  /// [leaf text](#model.NodeSpec.leafText), and other marks are left
+  /// out.
+  static fromSchema(schema: Schema): MarkdownSerializer {
+    return schema.cached.markdownSerializer as MarkdownSerializer ||
+      (schema.cached.markdownSerializer = new MarkdownSerializer(MarkdownSerializer.nodesFromSchema(schema),
+                                                                 MarkdownSerializer.marksFromSchema(schema)))
+  }
+
+  /// Gather the node serializers for a schema.
+  static nodesFromSchema(schema: Schema) {
+    let result: {[node: string]: MarkdownNodeSerializer} = {}
+    for (let name in schema.nodes) {
+      let type = schema.nodes[name]
+      result[name] = type.spec.toMarkdown ||
+        (Object.prototype.hasOwnProperty.call(defaultNodes, name) ? defaultNodes[name]
+         : type.isTextblock ? (type.spec.code ? defaultNodes.code_block : defaultNodes.paragraph)
+         : type.isLeaf ? leafText : renderContent)
+    }
+    return result
+  }
+
+  /// Gather the mark specs for a schema.
+  static marksFromSchema(schema: Schema) {
+    let result: {[mark: string]: MarkdownMarkSpec} = {}
+    for (let name in schema.marks) {
+      let spec = schema.marks[name].spec.toMarkdown ||
+        (Object.prototype.hasOwnProperty.call(defaultMarks, name) ? defaultMarks[name] : null)
+      if (spec) result[name] = spec
+    }
+    return result
+  }
+}
+
+/// The state passed to [node serializers](#model.MarkdownNodeSerializer),
+/// which they use to write their output.
+export class MarkdownSerializerState {
+  /// The output written so far.
+  out = ""
+  /// @internal
+  delim = ""
+  /// @internal
+  lineStart = 0
+  /// @internal
+  closed: Node | null = null
+  /// @internal
+  inTightList = false
+  /// @internal
+  flankPos = -1
+
+  /// @internal
+  constructor(
+    /// The serializer that this state belongs to.
+    readonly serializer: MarkdownSerializer
+  ) {}
+
+  /// @internal
+  flushClose(size = 2) {
+    if (!this.closed) return
+    if (!this.atLineStart) this.out += "\n"
+    if (size > 1) {
+      let blank = this.delim.replace(/\s+$/, "")
+      for (let i = 1; i < size; i++) this.out += blank + "\n"
+    }
+    this.closed = null
+  }
+
+  /// @internal
+  get atLineStart() {
+    return !this.out || this.out.charAt(this.out.length - 1) == "\n"
+  }
+
+  /// Write the given string to the output, first closing the
+  /// previous block and writing the line prefix (such as `"> "` in a
+  /// blockquote) when at the start of a line.
+  write(content = "") {
+    this.flushClose(this.inTightList ? 1 : 2)
+    if (this.atLineStart) {
+      this.out += this.delim
+      this.lineStart = this.out.length
+    }
+    this.out += content
+  }
+
+  /// Mark the given block as finished, so that the next block is
+  /// separated from it by a blank line.
+  closeBlock(node: Node) {
+    this.closed = node
+  }
+
+  /// Start a new line, unless the output is already at the start of
+  /// one.
+  ensureNewLine() {
+    if (!this.atLineStart) this.out += "\n"
+  }
+
+  /// Write text to the output. When `escape` is true (the default),
+  /// Markdown syntax characters are escaped and newlines are written
+  /// as hard breaks. Otherwise, the text is written as it is, with
+  /// the line prefix added after each newline.
+  text(text: string, escape = true) {
+    let lines = text.split("\n")
+    for (let i = 0; i < lines.length; i++) {
+      this.write()
+      let line = escape ? this.esc(lines[i], this.out.length == this.lineStart) : lines[i]
+      // A closing delimiter after punctuation isn't recognized when a
+      // word character follows it, so write that character as an entity
+      if (escape && this.out.length == this.flankPos && isWordChar(firstChar(line)))
+        line = charEntity(firstChar(line)) + line.slice(firstChar(line).length)
+      this.out += line
+      if (i != lines.length - 1) this.out += escape ? "\\\n" : "\n"
+    }
+  }
+
+  /// Escape Markdown syntax characters in a string. When
+  /// `startOfLine` is true, characters that have a meaning at the
+  /// start of a line, such as `#` or `>`, are escaped as well.
+  esc(str: string, startOfLine = false) {
+    str = str.replace(/[`*\\_\[\]<]|&(?=#?[a-zA-Z0-9]+;)/g, "\\$&")
+    // Leading whitespace is stripped by the parser (and four spaces
+    // would start a code block), so it is written as an entity
+    if (startOfLine) str = str.replace(/^(?:[ \t]|[#>=+~-]|(\d+)([.)]))/, (m, num, delim) =>
+      num ? num + "\\" + delim : /\s/.test(m) ? charEntity(m) : "\\" + m)
+    return str
+  }
+
+  /// Render a node, using the serializer for its type.
+  render(node: Node, parent: Node, index: number) {
+    let serialize = this.serializer.nodes[node.type.name]
+    if (!serialize) throw new RangeError(`No Markdown serializer for node type ${node.type.name}`)
+    serialize(this, node, parent, index)
+  }
+
+  /// Render the children of a block node.
+  renderContent(parent: Node) {
+    parent.forEach((node, _, i) => this.render(node, parent, i))
+  }
+
+  /// Render the inline content of a textblock, opening and closing
+  /// the delimiters for its marks. Whitespace at the edges of marked
+  /// text is moved outside of the delimiters, since Markdown doesn't
+  /// allow delimiters to be separated from their content by
+  /// whitespace.
+  renderInline(parent: Node) {
+    let active: Mark[] = [], trailing = ""
+    let specs = this.serializer.marks
+    let delim = (mark: Mark, side: "open" | "close", index: number) => {
+      let value = specs[mark.type.name][side]
+      return typeof value == "string" ? value : value(this, mark, parent, index)
+    }
+    let closeTo = (depth: number, index: number) => {
+      let closed = ""
+      while (active.length > depth) closed += delim(active.pop()!, "close", index)
+      let run = /([*_])\1*$/.exec(closed)
+      this.out += closed
+      if (run && punctuation.test(this.out.charAt(this.out.length - run[0].length - 1))) this.flankPos = this.out.length
+      if (trailing) { this.out += trailing; trailing = "" }
+    }
+    let raw = (marks: readonly Mark[]) => marks.some(m => specs[m.type.name].escape === false)
+    parent.forEach((node, _, index) => {
+      let marks = node.marks.filter(m => specs[m.type.name])
+      let text = node.isText ? node.text! : null, leading = ""
+      let keep = 0
+      while (keep < active.length && active[keep].isInSet(marks)) keep++
+      if (text != null && !raw(marks)) {
+        leading = /^\s*/.exec(text)![0]
+        if (leading == text) marks = active.slice(0, keep)
+      }
+      let opening = marks.filter(m => !m.isInSet(active.slice(0, keep)))
+      this.write()
+      closeTo(keep, index - 1)
+      if (opening.length && leading) {
+        this.out += this.esc(leading, this.out.length == this.lineStart)
+        text = text!.slice(leading.length)
+      }
+      // Marks whose content isn't escaped go on the inside
+      opening.sort((a, b) => +(specs[a.type.name].escape === false) - +(specs[b.type.name].escape === false))
+      let opened = ""
+      for (let mark of opening) {
+        opened += delim(mark, "open", index)
+        active.push(mark)
+      }
+      // An exclamation mark directly before a link would turn it into
+      // an image
+      if (opened.charAt(0) == "[" && /(^|[^\\])(\\\\)*!$/.test(this.out)) this.out = this.out.slice(0, -1) + "\\!"
+      let openPos = this.out.length, openRun = /^([*_])\1*/.exec(opened)
+      this.out += opened
+      if (text != null) {
+        let next = index < parent.childCount - 1 ? parent.child(index + 1).marks : Mark.none
+        let escape = !raw(active)
+        if (escape && active.some(m => !m.isInSet(next))) {
+          trailing = /\s*$/.exec(text)![0]
+          text = text.slice(0, text.length - trailing.length)
+        }
+        this.text(escape ? text : text.replace(/\n/g, " "), escape)
+      } else {
+        this.render(node, parent, index)
+      }
+      // An opening delimiter before punctuation isn't recognized after
+      // a word character, so write that character as an entity
+      if (openRun && punctuation.test(this.out.charAt(openPos + openRun[0].length))) {
+        let before = this.out.slice(openPos - 2, openPos)
+        if (!/^[\ud800-\udbff][\udc00-\udfff]$/.test(before)) before = before.slice(-1)
+        if (isWordChar(before))
+          this.out = this.out.slice(0, openPos - before.length) + charEntity(before) + this.out.slice(openPos)
+      }
+    })
+    closeTo(0, parent.childCount - 1)
+  }
+
+  /// Render a list node. `delim` is the prefix for the continuation
+  /// lines of items, and `firstDelim` computes the prefix of their
+  /// first line. Lists are written tight when the list node has a
+  /// truthy `tight` attribute or, if its type doesn't have that
+  /// attribute, when each of its items holds a single textblock.
+  renderList(node: Node, delim: string, firstDelim: (index: number) => string) {
+    if (this.closed) this.flushClose(this.inTightList ? 1 : 2)
+    let tight = "tight" in node.attrs ? !!node.attrs.tight : !node.content.content.some(item =>
+      item.childCount > 1 || (item.firstChild ? !item.firstChild.isTextblock : false))
+    let prevTight = this.inTightList
+    this.inTightList = tight
+    node.forEach((child, _, i) => {
+      if (i && tight) this.flushClose(1)
+      this.wrapBlock(delim, firstDelim(i), node, () => this.render(child, node, i))
+    })
+    this.inTightList = prevTight
+  }
+
+  /// Render a block whose lines are prefixed with `delim`, with
+  /// `firstDelim` (when given) as the prefix of its first line.
+  wrapBlock(delim: string, firstDelim: string | null, node: Node, f: () => void) {
+    let old = this.delim
+    this.write(firstDelim != null ? firstDelim : delim)
+    this.lineStart = this.out.length
+    this.delim += delim
+    f()
+    this.delim = old
+    this.closeBlock(node)
+  }
+
+  /// Wrap a link destination in angle brackets when it contains
+  /// characters that would otherwise end it.
+  destination(url: string) {
+    return /[\s()<>]/.test(url) ? "<" + url.replace(/[<>\\]/g, "\\$&") + ">" : url.replace(/\\/g, "\\\\")
+  }
+
+  /// Quote a link or image title.
+  quote(title: string) {
+    return '"' + title.replace(/["\\]/g, "\\$&") + '"'
+  }
+}
+
+function longestRun(text: string, ch: string) {
+  let max = 0, re = ch == "`" ? /`+/g : /~+/g
+  for (let m; m = re.exec(text);) max = Math.max(max, m[0].length)
+  return max
+}
+
+function renderContent(state: MarkdownSerializerState, node: Node) {
+  if (node.isTextblock) state.renderInline(node)
+  else state.renderContent(node)
+  if (node.isBlock) state.closeBlock(node)
+}
+
+function leafText(state: MarkdownSerializerState, node: Node) {
+  if (node.type.spec.leafText) state.text(node.type.spec.leafText(node))
+  if (node.isBlock) state.closeBlock(node)
+}
+
+// Adjacent lists with the same marker would be read as a single
+// list, so their markers alternate.
+function adjacentLists(node: Node, parent: Node, index: number) {
+  let count = 0
+  while (index > count && parent.child(index - count - 1).type == node.type) count++
+  return count
+}
+
+const defaultNodes: {[name: string]: MarkdownNodeSerializer} = {
+  paragraph(state, node) {
+    state.renderInline(node)
+    state.closeBlock(node)
+  },
+  heading(state, node) {
+    state.write("#".repeat(Math.min(6, Math.max(1, node.attrs.level || 1))) + " ")
+    state.renderInline(node)
+    // Escape a trailing run of # characters, which would otherwise be
+    // read as a closing sequence
+    state.out = state.out.replace(/([ \t])(#+[ \t]*)$/, "$1\\$2")
+    state.closeBlock(node)
+  },
+  blockquote(state, node) {
+    state.wrapBlock("> ", null, node, () => state.renderContent(node))
+  },
+  code_block(state, node) {
+    let text = node.textContent, fence = "`".repeat(Math.max(3, longestRun(text, "`") + 1))
+    let info = node.attrs.params || node.attrs.language || ""
+    state.write(fence + String(info).replace(/`/g, ""))
+    state.out += "\n"
+    if (text) {
+      state.text(text, false)
+      state.out += "\n"
+    }
+    state.write(fence)
+    state.closeBlock(node)
+  },
+  horizontal_rule(state, node) {
+    state.write("---")
+    state.closeBlock(node)
+  },
+  bullet_list(state, node, parent, index) {
+    let bullet = adjacentLists(node, parent, index) % 2 ? "*" : "-"
+    state.renderList(node, "  ", () => bullet + " ")
+  },
+  ordered_list(state, node, parent, index) {
+    let start = node.attrs.order == null ? 1 : node.attrs.order
+    let delim = adjacentLists(node, parent, index) % 2 ? ")" : "."
+    let width = String(start + node.childCount - 1).length + 2, space = " ".repeat(width)
+    state.renderList(node, space, i => {
+      let marker = String(start + i) + delim
+      return marker + " ".repeat(width - marker.length)
+    })
+  },
+  list_item(state, node) {
+    state.renderContent(node)
+  },
+  image(state, node) {
+    state.write("![" + state.esc(node.attrs.alt || "") + "](" + state.destination(node.attrs.src || "") +
+                (node.attrs.title ? " " + state.quote(node.attrs.title) : "") + ")")
+  },
+  hard_break(state, node, parent, index) {
+    // Breaks at the end of a textblock can't be expressed
+    for (let i = index + 1; i < parent.childCount; i++) if (parent.child(i).type != node.type) {
+      state.write("\\\n")
+      return
+    }
+  },
+  text(state, node) {
+    state.text(node.text!)
+  }
+}
+
+const defaultMarks: {[name: string]: MarkdownMarkSpec} = {
+  em: {open: "*", close: "*"},
+  strong: {open: "**", close: "**"},
+  link: {
+    open: "[",
+    close: (state, mark) => "](" + state.destination(mark.attrs.href || "") +
+      (mark.attrs.title ? " " + state.quote(mark.attrs.title) : "") + ")"
+  },
+  code: {
+    open: (state, mark, parent, index) => codeFence(mark, parent, index, true),
+    close: (state, mark, parent, index) => codeFence(mark, parent, index, false),
+    escape: false
+  }
+}
+
+// Characters that are neither whitespace nor punctuation, and thus
+// affect whether emphasis delimiters next to punctuation are
+// recognized.
+function isWordChar(ch: string) {
+  return !!ch && !/\s/.test(ch) && !punctuation.test(ch)
+}
+
+function firstChar(str: string) {
+  return str ? String.fromCodePoint(str.codePointAt(0)!) : ""
+}
+
+function charEntity(ch: string) {
+  return "&#" + ch.codePointAt(0) + ";"
+}
+
+// Compute the backtick fence for a code span, which must be longer
+// than any backtick run in its content, and padded with a space when
+// the content starts or ends with a backtick.
+function codeFence(mark: Mark, parent: Node, index: number, open: boolean) {
+  let text = ""
+  for (let i = index; i >= 0 && i < parent.childCount && mark.isInSet(parent.child(i).marks); i += open ? 1 : -1)
+    text = open ? text + (parent.child(i).text || "") : (parent.child(i).text || "") + text
+  let fence = "`".repeat(longestRun(text, "`") + 1)
+  let pad = /^`|`$/.test(text) || /^ [^]*[^ ][^]* $/.test(text) ? " " : ""
+  return open ? fence + pad : pad + fence
+}
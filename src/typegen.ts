@@ -0,0 +1,58 @@
+import {Schema, NodeType, MarkType, AttributeSpec} from "./schema"
+
+/// Options for [`Schema.declarations`](#model.Schema.declarations).
+export interface DeclarationOptions {
+  /// The module to import the library's types from. Defaults to
+  /// `"prosemirror-model"`.
+  module?: string
+}
+
+const primitiveTypes = ["number", "string", "boolean", "null", "undefined"]
+
+function attrType(spec: AttributeSpec) {
+  let {validate} = spec
+  if (typeof validate == "string") {
+    let types = validate.split("|")
+    return types.every(t => primitiveTypes.indexOf(t) > -1) ? types.join(" | ") : "any"
+  }
+  if (Array.isArray(validate)) {
+    let values = validate.map(v => v === null || v === undefined || typeof v == "number" ||
+                              typeof v == "string" || typeof v == "boolean" ? String(JSON.stringify(v)) : null)
+    return values.length && values.every(v => v != null) ? values.join(" | ") : "any"
+  }
+  if (!Object.prototype.hasOwnProperty.call(spec, "default")) return "any"
+  let value = spec.default
+  return value === null ? "null" : primitiveTypes.indexOf(typeof value) > -1 ? typeof value : "any"
+}
+
+function typeName(name: string, suffix: string) {
+  return name.split(/[^\w$]+|_/).map(word => word.charAt(0).toUpperCase() + word.slice(1)).join("") + suffix
+}
+
+function propName(name: string) {
+  return /^[a-zA-Z_$][\w$]*$/.test(name) ? name : JSON.stringify(name)
+}
+
+function declareTypes(types: {readonly [name: string]: NodeType | MarkType}, suffix: string, out: string[]) {
+  let map: string[] = []
+  for (let name in types) {
+    let attrs = types[name].spec.attrs || {}, iface = typeName(name, suffix)
+    let props: string[] = []
+    for (let attr in attrs) props.push(`  readonly ${propName(attr)}: ${attrType(attrs[attr])}`)
+    out.push(props.length ? `export interface ${iface} {\n${props.join("\n")}\n}` : `export interface ${iface} {}`)
+    map.push(`  ${propName(name)}: ${iface}`)
+  }
+  out.push(map.length ? `export interface ${suffix} {\n${map.join("\n")}\n}` : `export interface ${suffix} {}`)
+}
+
+export function schemaDeclarations(schema: Schema, options: DeclarationOptions) {
+  let out = [`import {Schema, TypedNode, TypedMark} from ${JSON.stringify(options.module || "prosemirror-model")}`]
+  declareTypes(schema.nodes, "NodeAttrs", out)
+  declareTypes(schema.marks, "MarkAttrs", out)
+  out.push(`export type NodeName = keyof NodeAttrs
+export type MarkName = keyof MarkAttrs
+export type TypedSchema = Schema<NodeName, MarkName>
+export type NodeOf<N extends NodeName> = TypedNode<NodeAttrs[N]>
+export type MarkOf<M extends MarkName> = TypedMark<MarkAttrs[M]>`)
+  return out.join("\n\n") + "\n"
+}
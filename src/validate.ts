@@ -0,0 +1,66 @@
+import {Node} from "./node"
+import {Mark} from "./mark"
+import {NodeType} from "./schema"
+
+/// A problem found by [`Node.validate`](#model.Node.validate).
+export interface ValidationIssue {
+  /// The kind of problem. `"content"` means the node's children
+  /// don't match its content expression, `"attrs"` that one of the
+  /// node's attributes, or the attributes of one of its marks, fail
+  /// [validation](#model.AttributeSpec.validate), and `"marks"` that
+  /// the node has marks that are not allowed in its parent or that
+  /// don't form a valid set.
+  kind: "content" | "attrs" | "marks"
+  /// The child indices that lead from the validated node to the
+  /// node with the problem. Empty for the validated node itself.
+  path: number[]
+  /// The position of the node with the problem, relative to the
+  /// start of the validated node's content, or -1 for the validated
+  /// node itself.
+  pos: number
+  /// The type of the node with the problem.
+  type: NodeType
+  /// A description of the problem.
+  message: string
+  /// For `"content"` problems, the node types that would have been
+  /// valid at the point where the content stopped matching.
+  expected?: readonly NodeType[]
+  /// For `"content"` problems, the index of the first child that
+  /// didn't fit, or the node's child count when required content is
+  /// missing at its end.
+  index?: number
+}
+
+export function validateNode(node: Node): ValidationIssue[] {
+  let issues: ValidationIssue[] = [], path: number[] = []
+  let scan = (node: Node, pos: number, parent: Node | null) => {
+    let report = (kind: ValidationIssue["kind"], message: string) => {
+      let issue: ValidationIssue = {kind, path: path.slice(), pos, type: node.type, message}
+      issues.push(issue)
+      return issue
+    }
+    for (let problem of node.type.attrProblems(node.attrs)) report("attrs", problem)
+    let set = Mark.none
+    for (let mark of node.marks) {
+      for (let problem of mark.type.attrProblems(mark.attrs)) report("attrs", problem)
+      if (parent && !parent.type.allowsMarkType(mark.type))
+        report("marks", `Mark ${mark.type.name} is not allowed in ${parent.type.name}`)
+      set = mark.addToSet(set)
+    }
+    if (!Mark.sameSet(set, node.marks))
+      report("marks", `Invalid collection of marks for node ${node.type.name}: ${node.marks.map(m => m.type.name)}`)
+    let mismatch = node.type.contentMismatch(node.content)
+    if (mismatch) {
+      let issue = report("content", `Invalid content for node ${node.type.name}: ${mismatch.message}`)
+      issue.expected = mismatch.match.nextTypes
+      issue.index = mismatch.index
+    }
+    node.forEach((child, offset, index) => {
+      path.push(index)
+      scan(child, pos + 1 + offset, node)
+      path.pop()
+    })
+  }
+  scan(node, -1, null)
+  return issues
+}
@@ -1,4 +1,4 @@
-import {doc, blockquote, h1, h2, p, em, strong} from "prosemirror-test-builder"
+import {doc, blockquote, h1, h2, p, em, strong, hr, img, a} from "prosemirror-test-builder"
 import {Node} from "prosemirror-model"
 import ist from "ist"
 
@@ -87,4 +87,67 @@ describe("Fragment", () => {
        end(doc("<a>", p("hello")),
            doc(p("hey"), p("hello"))))
   })
+  describe("diff", () => {
+    function diff(a: Node, b: Node, ...expected: string[]) {
+      ist(a.diff(b).map(ch => `${ch.kind} ${ch.fromA}-${ch.toA} ${ch.fromB}-${ch.toB}`).join(", "), expected.join(", "))
+    }
+
+    it("returns nothing for identical documents", () =>
+       diff(doc(p("a", em("b")), blockquote(h1("c"))), doc(p("a", em("b")), blockquote(h1("c")))))
+
+    it("finds inserted text", () =>
+       diff(doc(p("hello")), doc(p("hello world")),
+            "insert 6-6 6-12"))
+
+    it("finds deleted text", () =>
+       diff(doc(p("a big cat")), doc(p("a cat")),
+            "delete 3-7 3-3"))
+
+    it("finds replaced text", () =>
+       diff(doc(p("abc")), doc(p("axyc")),
+            "delete 2-3 2-2", "insert 3-3 2-4"))
+
+    it("finds multiple changes", () =>
+       diff(doc(p("abc"), p("def")), doc(p("aBbc"), p("df")),
+            "insert 2-2 2-3", "delete 7-8 8-8"))
+
+    it("reports changed marks", () =>
+       diff(doc(p("foo bar")), doc(p("foo ", strong("bar"))),
+            "marks 5-8 5-8"))
+
+    it("reports changed marks on inline nodes", () =>
+       diff(doc(p("x", img())), doc(p("x", em(img()))),
+            "marks 2-3 2-3"))
+
+    it("reports changed attributes", () =>
+       diff(doc(p("a"), h1("b")), doc(p("a"), h2("b")),
+            "attrs 3-6 3-6"))
+
+    it("combines attribute changes with content changes", () =>
+       diff(doc(h1("b")), doc(h2("bc")),
+            "attrs 0-3 0-4", "insert 2-2 2-3"))
+
+    it("reports changed link targets as mark changes", () =>
+       diff(doc(p(a({href: "x"}, "link"))), doc(p(a({href: "y"}, "link"))),
+            "marks 1-5 1-5"))
+
+    it("finds inserted blocks", () =>
+       diff(doc(p("a"), p("b")), doc(p("a"), hr(), p("b")),
+            "insert 3-3 3-4"))
+
+    it("finds deleted blocks", () =>
+       diff(doc(p("a"), blockquote(p("b")), p("c")), doc(p("a"), p("c")),
+            "delete 3-8 3-3"))
+
+    it("replaces nodes whose type changed", () =>
+       diff(doc(p("a"), p("b")), doc(p("a"), blockquote(p("b"))),
+            "delete 3-6 3-3", "insert 6-6 3-8"))
+
+    it("diffs nested content", () =>
+       diff(doc(blockquote(p("one"), p("two"))), doc(blockquote(p("one"), p("too"))),
+            "delete 8-9 8-8", "insert 9-9 8-9"))
+
+    it("can offset positions", () =>
+       ist(doc(p("a")).content.diff(doc(p("ab")).content, 10, 20)[0].fromB, 22))
+  })
 })
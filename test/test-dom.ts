@@ -1,14 +1,22 @@
 import {schema, eq, doc, blockquote, pre, h1, h2, p, li, ol, ul, em, strong, code, a, br, img, hr,
         builders} from "prosemirror-test-builder"
 import ist from "ist"
-import {DOMParser, DOMSerializer, Slice, Fragment, Schema, Node as PMNode, Mark,
-        ParseOptions, ParseRule} from "prosemirror-model"
+import {DOMParser, DOMSerializer, ParseTrace, ParseLoss, Slice, Fragment, Schema, Node as PMNode, Mark,
+        ParseOptions, ParseRule, normalizeWordHTML, normalizeGoogleDocsHTML, SanitizePolicy,
+        SanitizeViolation} from "prosemirror-model"
 
 // @ts-ignore
 import {JSDOM} from "jsdom"
+// @ts-ignore
+import {readFileSync} from "fs"
 const document = new JSDOM().window.document
 const xmlDocument = new JSDOM("<tag/>", {contentType: "application/xml"}).window.document
 
+function fixture(name: string): string {
+  // @ts-ignore
+  return readFileSync(new URL("fixtures/" + name, import.meta.url), "utf8").trim()
+}
+
 const parser = DOMParser.fromSchema(schema)
 const serializer = DOMSerializer.fromSchema(schema)
 
@@ -27,7 +35,11 @@ describe("DOMParser", () => {
         let declaredDOM = domFrom(html, document_)
 
         ist(derivedDOM.innerHTML, declaredDOM.innerHTML)
+        if (document_ == document)
+          ist(DOMSerializer.fromSchema(schema).serializeFragmentToHTML(doc.content), derivedDOM.innerHTML)
         ist(DOMParser.fromSchema(schema).parse(derivedDOM), doc, eq)
+        if (document_ == document)
+          ist(DOMParser.fromSchema(schema).parseHTML(html), doc, eq)
       }
     }
 
@@ -167,6 +179,7 @@ describe("DOMParser", () => {
         let dom = document.createElement("div")
         dom.innerHTML = html
         ist(parser.parse(dom, options), doc, eq)
+        ist(parser.parseHTML(html, options), doc, eq)
       }
     }
 
@@ -287,6 +300,7 @@ describe("DOMParser", () => {
         dom.innerHTML = html
         let result = parser.parse(dom, options)
         ist(result, doc, eq)
+        ist(parser.parseHTML(html, options), doc, eq)
       }
     }
 
@@ -312,7 +326,9 @@ describe("DOMParser", () => {
         let dom = document.createElement("div")
         dom.innerHTML = html
         let result = parser.parseSlice(dom, options)
-        ist(result, new Slice(Fragment.from(nodes.map(n => typeof n == "string" ? schema.text(n) : n)), openStart, openEnd), eq)
+        let expected = new Slice(Fragment.from(nodes.map(n => typeof n == "string" ? schema.text(n) : n)), openStart, openEnd)
+        ist(result, expected, eq)
+        ist(parser.parseHTMLSlice(html, options), expected, eq)
       }
     }
 
@@ -529,6 +545,350 @@ describe("DOMParser", () => {
                doc(p(strong("A"), "B"), p("C"))))
   })
 
+  describe("parseHTML", () => {
+    function html(input: string, doc: PMNode, parser_ = parser) {
+      return () => ist(parser_.parseHTML(input), doc, eq)
+    }
+
+    it("decodes character references",
+       html("<p>a &amp; b &lt;&#x41;&#66;&nbsp;&copy &bogus; &#150;</p>",
+            doc(p("a & b <AB\u00a0\u00a9 &bogus; \u2013"))))
+
+    it("decodes character references in attributes",
+       html("<p><a href='/x?a=1&amp;b=2&copy=3'>x</a></p>",
+            doc(p(a({href: "/x?a=1&b=2&copy=3"}, "x")))))
+
+    it("closes elements implied by start tags",
+       html("<ul><li>one<li>two<p>three<p>four</ul><h1>a<h2>b</h2>",
+            doc(ul(li(p("one")), li(p("two"), p("three"), p("four"))), h1("a"), h2("b"))))
+
+    it("supports unquoted and valueless attributes",
+       html("<p><img src=foo.png alt=x hidden></p>",
+            doc(p(img({src: "foo.png", alt: "x"})))))
+
+    it("doesn't parse markup in raw text elements",
+       html("<p>a<style>p > b { color: red }</style><script>if (a < b) x('</p>')</script>b</p>",
+            doc(p("ab"))))
+
+    it("ignores comments and doctypes",
+       html("<!doctype html><p>a<!-- <p>b</p> -->c</p>",
+            doc(p("ac"))))
+
+    it("provides style information to getAttrs",
+       html("<p><b style='font-weight: normal'>a</b><span style='font-weight: 700'>b</span></p>",
+            doc(p("a", strong("b")))))
+
+    it("matches complex selectors", () => {
+      let selParser = new DOMParser(schema, [
+        {tag: "div.note > span[data-kind^=sub]:first-child", node: "horizontal_rule"},
+        {tag: "div.note", node: "blockquote"},
+        {tag: "p", node: "paragraph"}
+      ])
+      ist(selParser.parseHTML("<div class='x note'><span data-kind=subtle></span><span data-kind=subtle></span><p>a</p></div>"),
+          doc(blockquote(hr(), p("a"))), eq)
+    })
+
+    it("can parse a slice",
+       () => ist(parser.parseHTMLSlice("<li>foo</li><li>bar"), new Slice(Fragment.from([li(p("foo")), li(p("bar"))]), 2, 2), eq))
+  })
+
+  describe("trace", () => {
+    function trace(html: string, parser_ = parser) {
+      let trace = new ParseTrace()
+      parser_.parseHTML(html, {trace})
+      return trace
+    }
+
+    it("records matched rules", () => {
+      let t = trace("<h2>a</h2><p><em>b</em><span style='font-weight: bold'>c</span><b style='font-weight: normal'>d</b></p>")
+      ist(t.toString(), [
+        '<h2> rule "h2" #14 (priority 50) -> heading {"level":2}',
+        '<p> rule "p" #10 (priority 50) -> paragraph',
+        '<em> rule "em" #2 (priority 50) +em',
+        '<span> style "font-weight" #8 (priority 50) +strong',
+        '<span> skip',
+        '<b> style "font-weight=400" #7 (priority 50)',
+        '<b> skip'
+      ].join("\n"))
+      let h2 = t.entries[0]
+      ist(h2.rule!.node, "heading")
+      ist(h2.attrs!.level, 2)
+      ist(t.forNode(h2.dom).length, 1)
+    })
+
+    it("records wrapping", () => {
+      let t = trace("<li>x</li><br>")
+      ist(t.entries.map(e => e.type).join(" "), "rule wrap wrap rule wrap")
+      ist(t.entries[1].wrappers!.map(t => t.name).join(), "ordered_list")
+      ist(t.entries[2].dom.nodeValue, "x")
+      ist(t.entries[2].node!.text, "x")
+    })
+
+    it("records ignored and dropped content", () => {
+      let s = new Schema({nodes: {doc: {content: "paragraph+"}, text: {},
+                                  paragraph: {content: "text*", parseDOM: [{tag: "p"}]},
+                                  image: {inline: true, parseDOM: [{tag: "img"}]}}})
+      let t = trace("<p>a<img>b<br></p><script>x</script>", DOMParser.fromSchema(s))
+      ist(t.toString(), ['<p> rule "p" #0 (priority 50) -> paragraph',
+                         '<img> rule "img" #1 (priority 50) -> image',
+                         '<img> drop image',
+                         '<br> skip',
+                         '<br> leafFallback',
+                         '<script> ignore'].join("\n"))
+    })
+
+    it("records style rules that clear marks", () => {
+      let t = trace("<p><strong><span style='font-weight: normal'>b</span></strong></p>", new DOMParser(schema, [
+        {tag: "p", node: "paragraph"},
+        {tag: "strong", mark: "strong"},
+        {style: "font-weight=normal", clearMark: m => m.type.name == "strong"}
+      ]))
+      let entry = t.entries[2]
+      ist(entry.type, "style")
+      ist(entry.index, 2)
+      ist(entry.removeMarks!.map(m => m.type.name).join(), "strong")
+    })
+  })
+  })
+
+  describe("losses", () => {
+    let lossSchema = new Schema({
+      nodes: {doc: {content: "block+"}, text: {group: "inline"},
+              paragraph: {group: "block", content: "inline*", parseDOM: [{tag: "p"}]},
+              code: {group: "block", content: "text*", marks: "", parseDOM: [{tag: "pre"}]},
+              image: {inline: true, parseDOM: [{tag: "img"}]}},
+      marks: {em: {parseDOM: [{tag: "em"}]}}
+    })
+    let lossParser = DOMParser.fromSchema(lossSchema)
+
+    function losses(html: string) {
+      let losses: ParseLoss[] = []
+      lossParser.parseHTML(html, {losses})
+      return losses.map(l => l.reason + " " + l.dom.nodeName.toLowerCase() +
+                        (l.node ? " " + l.node : "") + (l.mark ? " " + l.mark.type.name : "")).join(", ")
+    }
+
+    it("reports nodes that don't fit", () => {
+      ist(losses("<p>a<img>b</p>"), "unplaced img image")
+    })
+
+    it("reports ignored elements", () => {
+      ist(losses("<p>a</p><script>x</script><style>p {}</style>"), "ignored script, ignored style")
+    })
+
+    it("reports elements without a rule", () => {
+      ist(losses("<p>a<input><span></span><br>b</p>"), "unmatched input")
+    })
+
+    it("reports marks that aren't allowed", () => {
+      ist(losses("<pre><em>c</em>d</pre><em><pre>x</pre></em><p><em>y</em></p>"),
+          'mark #text "c" em, mark #text "x" em')
+    })
+
+    it("reports nothing for content that fits", () => {
+      ist(losses("<p><em>a</em> b</p><pre>c</pre>"), "")
+    })
+
+    it("doesn't report nested elements for an active mark", () => {
+      ist(losses("<p><em>a<em>b</em></em></p>"), "")
+    })
+  })
+
+  describe("style matching", () => {
+    function styleParser(rules: ParseRule[]) {
+      return new DOMParser(schema, [{tag: "p", node: "paragraph"} as ParseRule].concat(rules))
+    }
+    function style(rules: ParseRule[], html: string, doc: PMNode) {
+      return () => ist(styleParser(rules).parseHTML(html), doc, eq)
+    }
+
+    it("compares colors by value", style(
+      [{style: "color=red", mark: "em"}, {style: "background-color=#ffff00", mark: "strong"}],
+      "<p><span style='color: #F00'>a</span><span style='color: rgb(255, 0, 0)'>b</span>" +
+        "<span style='color: rgba(100%, 0%, 0%, 1)'>c</span><span style='color: hsl(0, 100%, 50%)'>d</span>" +
+        "<span style='color: #ff000080'>e</span><span style='background-color: yellow'>f</span></p>",
+      doc(p(em("abcd"), "e", strong("f")))))
+
+    it("compares numbers", style(
+      [{style: "font-weight>=600", mark: "strong"}, {style: "font-size>14px", mark: "em"}],
+      "<p><span style='font-weight: 700'>a</span><span style='font-weight: bold'>b</span>" +
+        "<span style='font-weight: 500'>c</span><span style='font-weight: normal'>d</span>" +
+        "<span style='font-size: 20px'>e</span><span style='font-size: 14px'>f</span><span style='font-size: 2em'>g</span></p>",
+      doc(p(strong("ab"), "cd", em("e"), "fg"))))
+
+    it("supports inequality", style(
+      [{style: "font-weight!=normal", mark: "strong"}],
+      "<p><span style='font-weight: 400'>a</span><span style='font-weight: 800'>b</span></p>",
+      doc(p("a", strong("b")))))
+
+    it("matches regular expressions", style(
+      [{style: "font-style~^(italic|oblique)", mark: "em"}],
+      "<p><span style='font-style: Oblique 10deg'>a</span><span style='font-style: normal'>b</span></p>",
+      doc(p(em("a"), "b"))))
+
+    it("can combine tag and style conditions", () => {
+      let parser = new DOMParser(schema, [
+        {tag: "p", node: "paragraph"},
+        {tag: "b", style: "font-weight=normal", skip: true},
+        {tag: "b", mark: "strong"},
+        {tag: "span", style: "font-weight>=600", mark: "strong"}
+      ])
+      ist(parser.parseHTML("<p><b style='font-weight: normal'>a</b><b>b</b><span style='font-weight: 900'>c</span>" +
+                           "<span style='color: red'>d</span></p>"),
+          doc(p("a", strong("bc"), "d")), eq)
+    })
+
+    it("raises an error for invalid comparisons", () => {
+      ist.throws(() => styleParser([{style: "font-weight>=heavy", mark: "strong"}]), SyntaxError)
+      ist.throws(() => styleParser([{style: "font-style~(", mark: "em"}]), SyntaxError)
+    })
+
+    it("treats other strings as property names", style(
+      [{style: "font-weight: bold", mark: "strong"}, {style: "font style", mark: "em"}],
+      "<p><span style='font-weight: bold'>a</span><span style='font-style: italic'>b</span></p>",
+      doc(p("ab"))))
+
+    it("compares numbers by value", style(
+      [{style: "font-weight=400", mark: "em"}, {style: "font-weight=bold", mark: "strong"}],
+      "<p><span style='font-weight: normal'>a</span><span style='font-weight: 700'>b</span>" +
+        "<span style='font-weight: bolder'>c</span></p>",
+      doc(p(em("a"), strong("b"), "c"))))
+  })
+
+  describe("normalizers", () => {
+    // Clipboard content from Word and Google Docs, trimmed down to a
+    // few paragraphs
+    const wordHTML = fixture("paste-word.html")
+
+    const wordDoc = doc(p("Intro ", strong("bold")),
+                        ul(li(p("One")), li(p("Two"), ol(li(p("Sub")))), li(p("Three"))),
+                        p("\u00a0"),
+                        ol({order: 3}, li(p("Numbered"))))
+
+    const docsHTML = fixture("paste-google-docs.html")
+
+    const docsDoc = doc(p("plain ", strong("bold"), em("\u00a0both")), h2("Heading"))
+
+    // A parser that doesn't look at inline styles
+    const plainParser = new DOMParser(schema, DOMParser.schemaRules(schema).filter(r => !r.style))
+
+    function domFrom(html: string) {
+      let dom = document.createElement("div")
+      dom.innerHTML = html
+      return dom
+    }
+
+    it("normalizes Word lists in parsed HTML",
+       () => ist(parser.parseHTML(wordHTML, {normalize: [normalizeWordHTML]}), wordDoc, eq))
+
+    it("normalizes Word lists in DOM content",
+       () => ist(parser.parse(domFrom(wordHTML), {normalize: [normalizeWordHTML]}), wordDoc, eq))
+
+    it("normalizes Google Docs markup in parsed HTML",
+       () => ist(plainParser.parseHTML(docsHTML, {normalize: [normalizeGoogleDocsHTML]}), docsDoc, eq))
+
+    it("normalizes Google Docs markup in DOM content",
+       () => ist(plainParser.parse(domFrom(docsHTML), {normalize: [normalizeGoogleDocsHTML]}), docsDoc, eq))
+
+    it("leaves other content alone", () => {
+      let html = '<p><b id="x" style="font-weight: normal">a</b><span style="font-weight: 700">b</span></p>' +
+        '<!--[if !supportLists]--><ul><li>c</li></ul><br class="Apple-interchange-newline">'
+      let dom = domFrom(html)
+      normalizeGoogleDocsHTML(dom)
+      normalizeWordHTML(dom)
+      ist(dom.innerHTML, html)
+    })
+  })
+
+  describe("sanitization", () => {
+    function sanitize(policy: SanitizePolicy, html: string, doc: PMNode, expected = "") {
+      return () => {
+        let violations: SanitizeViolation[] = []
+        let sanitizer = new DOMParser(schema, DOMParser.schemaRules(schema), policy)
+        ist(sanitizer.parseHTML(html, {violations}), doc, eq)
+        ist(violations.map(v => v.type + (v.attr ? " " + v.attr : "") + " " + v.dom.nodeName.toLowerCase()).join(", "), expected)
+      }
+    }
+
+    it("rejects URLs with disallowed schemes", sanitize(
+      {},
+      "<p><a href='javascript:alert(1)'>a</a><a href=' JavaScript:x'>b</a><a href='/rel'>c</a>" +
+        "<a href='https://x.com'>d</a><img src='data:image/png;base64,AAAA'><img src='x.png'></p>",
+      doc(p("ab", a({href: "/rel"}, "c"), a({href: "https://x.com"}, "d"), img({src: "x.png"}))),
+      "scheme href a, scheme href a, scheme src img"))
+
+    it("allows configuring schemes and URL attributes", sanitize(
+      {allowedSchemes: ["https", "data"], urlAttributes: ["href", "src", "title"]},
+      "<p><a href='http://x.com'>a</a><a href='https://x.com' title='ftp://y'>b</a><img src='data:image/png;base64,AAAA'></p>",
+      doc(p("ab", img({src: "data:image/png;base64,AAAA"}))),
+      "scheme href a, scheme title a"))
+
+    it("limits attribute length", sanitize(
+      {maxAttributeLength: 10},
+      "<p><a href='https://example.com/long'>a</a><a href='/short'>b</a></p>",
+      doc(p("a", a({href: "/short"}, "b"))),
+      "length href a"))
+
+    it("limits nesting depth", sanitize(
+      {maxDepth: 3},
+      "<blockquote><p>a<em>b<strong>c</strong></em></p></blockquote><p>d</p>",
+      doc(blockquote(p("a", em("b"))), p("d")),
+      "depth strong"))
+
+    it("limits the number of nodes", sanitize(
+      {maxNodes: 4},
+      "<p>a</p><p>b</p><p>c</p><p>d</p>",
+      doc(p("a"), p("b")),
+      "nodes p"))
+
+    it("rejects unsafe inline CSS", () => {
+      let styledSchema = new Schema({
+        nodes: schema.spec.nodes,
+        marks: {styled: {attrs: {style: {}},
+                         parseDOM: [{tag: "span", getAttrs: dom => ({style: (dom as HTMLElement).getAttribute("title")})}]}}
+      })
+      let violations: SanitizeViolation[] = []
+      let sanitizer = new DOMParser(styledSchema, DOMParser.schemaRules(styledSchema), {})
+      let parsed = sanitizer.parseHTML("<p><span title='color: red'>a</span>" +
+                                       "<span title='background: url(\"https://x.com/y.png\")'>b</span>" +
+                                       "<span title='background: url(javascript:alert(1))'>c</span>" +
+                                       "<span title='width: expression(alert(1))'>d</span>" +
+                                       "<span title='background: url(java\\73 cript:x)'>e</span>" +
+                                       "<span title='width: ex/**/pression(x)'>f</span></p>", {violations})
+      let styled = (style: string) => styledSchema.mark("styled", {style})
+      ist(parsed, styledSchema.node("doc", null, [styledSchema.node("paragraph", null, [
+        styledSchema.text("a", [styled("color: red")]),
+        styledSchema.text("b", [styled('background: url("https://x.com/y.png")')]),
+        styledSchema.text("cdef")
+      ])]), eq)
+      ist(violations.map(v => v.type + " " + v.attr).join(", "), "style style, style style, style style, style style")
+    })
+
+    it("reports content dropped by limits as lost", () => {
+      let losses: ParseLoss[] = []
+      new DOMParser(schema, DOMParser.schemaRules(schema), {maxDepth: 2, maxNodes: 6})
+        .parseHTML("<p>a<em>b<strong>c</strong></em></p><p>d</p><p>e</p>", {losses})
+      ist(losses.map(l => l.reason + " " + l.dom.nodeName.toLowerCase()).join(", "), "limit strong, limit #text, limit p")
+    })
+
+    it("checks rules provided by ruleFromNode", () => {
+      let sanitizer = new DOMParser(schema, DOMParser.schemaRules(schema), {})
+      let ruleFromNode = (dom: any) => dom.nodeName == "A" ? {mark: "link", attrs: {href: dom.getAttribute("href")}} : null
+      ist(sanitizer.parseHTML("<p><a href='javascript:x'>a</a><a href='/b'>b</a></p>", {ruleFromNode}),
+          doc(p("a", a({href: "/b"}, "b"))), eq)
+    })
+
+    it("checks attributes produced by style rules", () => {
+      let violations: SanitizeViolation[] = []
+      let sanitizer = new DOMParser(schema, [{tag: "p", node: "paragraph"},
+                                             {style: "--link", mark: "link", getAttrs: v => ({href: v as string})}], {})
+      ist(sanitizer.parseHTML("<p><span style='--link: javascript:x'>a</span><span style='--link: /b'>b</span></p>", {violations}),
+          doc(p("a", a({href: "/b"}, "b"))), eq)
+      ist(violations.length, 1)
+      ist(violations[0].rule!.mark, "link")
+    })
+  })
+
   describe("schemaRules", () => {
     it("defaults to schema order", () => {
       let schema = new Schema({
@@ -627,4 +987,46 @@ describe("DOMSerializer", () => {
     ist((node as HTMLElement).innerHTML,
         "<strong>foo<code>bar</code></strong><em><i data-emphasis=\"true\"><strong><code>baz</code></strong>quux</i></em>xyz")
   })
+
+  describe("serializeFragmentToHTML", () => {
+    it("escapes text and attributes", () => {
+      ist(serializer.serializeFragmentToHTML(doc(p("a < b & c > d", a({href: "x?a=1&b=\"2\""}, "\u00a0l"))).content),
+          '<p>a &lt; b &amp; c &gt; d<a href="x?a=1&amp;b=&quot;2&quot;">&nbsp;l</a></p>')
+    })
+
+    it("omits closing tags for void elements", () => {
+      ist(serializer.serializeFragmentToHTML(doc(p("a", br(), img({src: "i.png", alt: null})), hr()).content),
+          '<p>a<br><img src="i.png"></p><hr>')
+    })
+
+    it("can omit a mark", () => {
+      ist(noEm.serializeNodeToHTML(p("foo", em("bar"), strong("baz"))), "<p>foobar<strong>baz</strong></p>")
+    })
+
+    it("wraps a node in its marks", () => {
+      ist(serializer.serializeNodeToHTML(schema.text("x", [schema.marks.em.create(), schema.marks.strong.create()])),
+          "<em><strong>x</strong></em>")
+    })
+
+    it("preserves the case of namespaced elements", () => {
+      let svgSerializer = new DOMSerializer({
+        ...serializer.nodes,
+        image() { return ["http://www.w3.org/2000/svg svg", {viewBox: "0 0 1 1"}, ["linearGradient", {"http://www.w3.org/1999/xlink xlink:href": "#g"}]] }
+      }, serializer.marks)
+      ist(svgSerializer.serializeFragmentToHTML(p(img()).content),
+          '<svg viewBox="0 0 1 1"><linearGradient xlink:href="#g"></linearGradient></svg>')
+    })
+
+    it("doesn't escape the content of raw text elements", () => {
+      let styleSerializer = new DOMSerializer({...serializer.nodes, horizontal_rule() { return ["style", "a > b {}"] }}, serializer.marks)
+      ist(styleSerializer.serializeFragmentToHTML(doc(hr()).content), "<style>a > b {}</style>")
+    })
+
+    it("refuses to close raw text elements early", () => {
+      let scriptSerializer = new DOMSerializer({...serializer.nodes, horizontal_rule() {
+        return ["script", "x('</SCRIPT><img src=x onerror=alert(1)>')"]
+      }}, serializer.marks)
+      ist.throws(() => scriptSerializer.serializeFragmentToHTML(doc(hr()).content), RangeError)
+    })
+  })
 })
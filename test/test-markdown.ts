@@ -0,0 +1,274 @@
+import {schema, eq, doc, blockquote, pre, h1, h2, h3, p, li, ol, ul, em, strong, code, a, br, img, hr} from "prosemirror-test-builder"
+import ist from "ist"
+import {MarkdownParser, MarkdownSerializer, MarkdownToken, Schema, Node as PMNode} from "prosemirror-model"
+
+const parser = MarkdownParser.fromSchema(schema)
+const serializer = MarkdownSerializer.fromSchema(schema)
+
+function test(text: string, doc: PMNode) {
+  return () => ist(parser.parse(text), doc, eq)
+}
+
+// Create text nodes for text that the test builder would read as tags
+const html = (text: string) => schema.text(text)
+
+describe("MarkdownParser", () => {
+  describe("blocks", () => {
+    it("parses paragraphs", test("one\ntwo\n\nthree", doc(p("one two"), p("three"))))
+
+    it("parses ATX headings", test("# one #\n## two\n#three", doc(h1("one"), h2("two"), p("#three"))))
+
+    it("parses setext headings", test("one\n===\n\ntwo\nlines\n---", doc(h1("one"), h2("two lines"))))
+
+    it("parses horizontal rules", test("a\n\n* * *\n___", doc(p("a"), hr(), hr())))
+
+    it("parses fenced code", test("```js\nlet x = 1\n\n*y*\n```\nafter",
+                                  doc(pre("let x = 1\n\n*y*"), p("after"))))
+
+    it("parses indented code", test("    a\n\n      b\n\nc", doc(pre("a\n\n  b"), p("c"))))
+
+    it("doesn't let indented code interrupt a paragraph", test("a\n    b", doc(p("a b"))))
+
+    it("parses blockquotes", test("> a\nlazy\n> > b\n\nc", doc(blockquote(p("a lazy"), blockquote(p("b"))), p("c"))))
+
+    it("parses bullet lists", test("- a\n- b\n\n  c\n* d", doc(ul(li(p("a")), li(p("b"), p("c"))), ul(li(p("d"))))))
+
+    it("parses ordered lists", () => {
+      let result = parser.parse("3. a\n4. b\n   1) c")
+      ist(result, doc(ol({order: 3}, li(p("a")), li(p("b"), ol(li(p("c")))))), eq)
+    })
+
+    it("only lets lists starting at one interrupt a paragraph", test("a\n2. b\n1. c", doc(p("a 2. b"), ol(li(p("c"))))))
+
+    it("handles items that start with a blank line", test("-\n  a\n-\n\n  b", doc(ul(li(p("a")), li(p())), p("b"))))
+
+    it("keeps HTML blocks as text", () => {
+      ist(parser.parse("<div>\n*x*\n</div>\n\ny").toString(), 'doc(paragraph("<div>\\n*x*\\n</div>"), paragraph("y"))')
+    })
+
+    it("keeps tabs in content", test("a\tb\n\n\tc\td", doc(p("a\tb"), pre("c\td"))))
+
+    it("counts tabs as indentation", test("  - a\n\n\tb", doc(ul(li(p("a"), p("b"))))))
+
+    it("expands partially used tabs", test("- a\n\n\t\tb", doc(ul(li(p("a"), pre("  b"))))))
+
+    it("allows tabs after block markers", test("#\ta\n\n*\t*\t*\t\n\n>\tb", doc(h1("a"), hr(), blockquote(p("b")))))
+
+    it("removes list indentation from blank lines in code",
+       test("1. a\n   ```\n   x\n  \n     \n   y\n   ```", doc(ol(li(p("a"), pre("x\n\n  \ny"))))))
+
+    it("continues HTML comments across blank lines", test("<!-- a\n\nb -->\nc", doc(p("<!-- a\n\nb -->"), p("c"))))
+
+    it("ends raw HTML blocks at their closing tag",
+       test("<script>\nx\n\ny</script>\nz", doc(p(html("<script>\nx\n\ny</script>")), p("z"))))
+
+    it("reads processing instructions, declarations, and CDATA",
+       test("<?php\n\n?>\n<!DOCTYPE html>\n<![CDATA[\n\n]]>\nx",
+            doc(p("<?php\n\n?>"), p("<!DOCTYPE html>"), p("<![CDATA[\n\n]]>"), p("x"))))
+
+    it("only lets some HTML blocks interrupt a paragraph",
+       test("a\n<div>\nb\n\nc\n<span>\nd\n\ne\n<!-- f -->", doc(p("a"), p(html("<div>\nb")), p(html("c <span> d")), p("e"), p("<!-- f -->"))))
+
+    it("requires other HTML blocks to start with a complete tag on its own line",
+       test("<del>*a*</del>\n\n<del>\n\n*b*", doc(p(html("<del>"), em("a"), html("</del>")), p(html("<del>")), p(em("b")))))
+
+    it("reads containers nested too deeply as text", () => {
+      let result = parser.parse("> ".repeat(3000) + "x"), depth = 0
+      for (let node = result; !node.isTextblock; node = node.firstChild!) depth++
+      ist(depth, 101)
+      ist(/^(> )+x$/.test(result.textContent))
+    })
+
+    it("orders setext headings and thematic breaks", test("a\n---\nb\n***\n\n- - -", doc(h2("a"), p("b"), hr(), hr())))
+
+    it("doesn't make setext headings from lazy lines", test("> a\n---", doc(blockquote(p("a")), hr())))
+
+    it("strips closing sequences from ATX headings", test("## a ##  \n### b \\###\n#", doc(h2("a"), h3("b ###"), h1())))
+
+    it("parses empty list items", test("- a\n-\n- c", doc(ul(li(p("a")), li(p()), li(p("c"))))))
+
+    it("starts a new list when the delimiter changes",
+       test("1) a\n2) b\n3. c", doc(ol(li(p("a")), li(p("b"))), ol({order: 3}, li(p("c"))))))
+
+    it("continues list items in blockquotes lazily", test("> - a\n> - b\nc", doc(blockquote(ul(li(p("a")), li(p("b c")))))))
+
+    it("parses tilde fences, longer closing fences, and unclosed fences",
+       test("~~~\na\n~~~~\n\n```\nb", doc(pre("a"), pre("b"))))
+
+    it("doesn't allow backticks in the info string of backtick fences",
+       test("``` a`b\nx", doc(p("``` a`b x"))))
+  })
+
+  describe("inline", () => {
+    it("parses emphasis", test("*a* __b__ ***c*** *d **e** f*",
+                               doc(p(em("a"), " ", strong("b"), " ", em(strong("c")), " ", em("d ", strong("e"), " f")))))
+
+    it("respects flanking rules", test("a * b * c_d_e *f*g", doc(p("a * b * c_d_e ", em("f"), "g"))))
+
+    it("applies the rule of three", test("*a**b*", doc(p(em("a**b")))))
+
+    it("parses code spans", test("`a` `` b`c `` `  ` `x", doc(p(code("a"), " ", code("b`c"), " ", code("  "), " `x"))))
+
+    it("parses inline links", test('[a *b*](http://x.com "T") [c](<d e>)',
+                                   doc(p(a({href: "http://x.com", title: "T"}, "a ", em("b")), " ",
+                                         a({href: "d e"}, "c")))))
+
+    it("parses reference links", test("[a] and [b][A] [c][]\n\n[a]: /url 'title'",
+                                      doc(p(a({href: "/url", title: "title"}, "a"), " and ",
+                                            a({href: "/url", title: "title"}, "b"), " [c][]"))))
+
+    it("doesn't nest links", test("[a [b](/b)](/a)", doc(p("[a ", a({href: "/b"}, "b"), "](/a)"))))
+
+    it("parses autolinks", test("<http://a.b/c> <x@y.z>",
+                                doc(p(a({href: "http://a.b/c"}, "http://a.b/c"), " ", a({href: "mailto:x@y.z"}, "x@y.z")))))
+
+    it("parses images", test('![an *img*](img.png "t")', doc(p(img({alt: "an img", title: "t"})))))
+
+    it("parses hard breaks", test("a  \nb\\\nc", doc(p("a", br(), "b", br(), "c"))))
+
+    it("handles escapes and entities", test("\\*a\\* &amp; &copy; &#65; \\q", doc(p("*a* & © A \\q"))))
+
+    it("decodes numeric entities", test("&#35;&#x22;&#0;&#X2603;", doc(p("#\"\ufffd\u2603"))))
+
+    it("leaves unknown and unterminated entities alone", test("&bogus; &amp &Dcaron;", doc(p("&bogus; &amp &Dcaron;"))))
+
+    it("matches reference labels case-insensitively",
+       test("[Foo  Bar]\n\n[foo bar]: /u\n\"t\"", doc(p(a({href: "/u", title: "t"}, "Foo  Bar")))))
+
+    it("follows the emphasis rules for underscores and nesting",
+       test("a_b_ _c_ **d*e** *f`*`", doc(p("a_b_ ", em("c"), " ", strong("d*e"), " *f", code("*")))))
+
+    it("allows brackets and escapes in links",
+       test("[a [b]](/c\\)d) [e](</f g>)", doc(p(a({href: "/c)d"}, "a [b]"), " ", a({href: "/f g"}, "e")))))
+
+    it("strips a single space from code spans", test("`` a ``` b ``", doc(p(code("a ``` b")))))
+
+    it("doesn't create hard breaks at the end of a paragraph", test("a\\\n\nb  ", doc(p("a\\"), p("b"))))
+
+    it("keeps inline HTML as text", test("a <b>c</b> <x@y", doc(p(html("a <b>c</b> <x@y")))))
+
+    it("reads emphasis nested too deeply as text", () => {
+      let stars = "*".repeat(19800)
+      ist(parser.parse("*".repeat(20000) + "a" + "*".repeat(20000)), doc(p(stars, strong("a"), stars)), eq)
+    })
+
+    it("reads links and images nested too deeply as text", () => {
+      let result = parser.parse("![".repeat(20000) + "a" + "](u)".repeat(20000))
+      ist(result.firstChild!.childCount, 3)
+      ist(result.firstChild!.child(1).type.name, "image")
+    })
+
+    it("parses long runs of delimiters and brackets in linear time", () => {
+      for (let text of ["*_".repeat(10000) + "a" + "_*".repeat(10000), "a_ _b ".repeat(10000),
+                        "[".repeat(10000) + "a" + "]".repeat(10000), "[a".repeat(10000) + "]".repeat(10000)]) {
+        let start = Date.now()
+        parser.parse(text)
+        ist(Date.now() - start < 500)
+      }
+    })
+  })
+
+  describe("schema", () => {
+    let noLists = new Schema({
+      nodes: schema.spec.nodes.remove("bullet_list").remove("ordered_list").remove("list_item")
+        .remove("heading").remove("image"),
+      marks: schema.spec.marks.remove("link")
+    })
+
+    it("fits content to the schema", () => {
+      ist(MarkdownParser.fromSchema(noLists).parse("# a\n\n- [b](c)\n- ![d](e)").toString(),
+          "doc(paragraph(\"a\"), paragraph(\"b\"), paragraph(\"d\"))")
+    })
+
+    it("can use custom rules", () => {
+      let custom = new MarkdownParser(schema, {
+        paragraph: {node: "paragraph"},
+        heading: {node: "heading", getAttrs: tok => ({level: tok.level! + 1})},
+        em: {mark: "strong"},
+        code_block: {ignore: true}
+      })
+      ist(custom.parse("# a\n\n*b*\n\n    c"), doc(h2("a"), p(strong("b"))), eq)
+    })
+
+    it("can parse slices", () => {
+      let slice = parser.parseSlice("a *b*")
+      ist(slice.openStart, 1)
+      ist(slice.content.eq(doc(p("a ", em("b"))).content))
+    })
+
+    it("reports list tightness", () => {
+      let tight: boolean[] = []
+      let rules = Object.assign({}, parser.rules, {
+        bullet_list: {node: "bullet_list", getAttrs: (tok: MarkdownToken) => { tight.push(tok.tight!); return null }}
+      })
+      new MarkdownParser(schema, rules).parse("- a\n- b\n\n1. x\n\n* c\n\n* d")
+      ist(tight.join(), "true,false")
+    })
+  })
+})
+
+describe("MarkdownSerializer", () => {
+  function test(doc: PMNode, markdown: string) {
+    return () => {
+      ist(serializer.serialize(doc), markdown)
+      ist(parser.parse(markdown), doc, eq)
+    }
+  }
+
+  it("writes paragraphs and headings", test(doc(h1("a"), p("b"), h2("c")), "# a\n\nb\n\n## c"))
+
+  it("writes blockquotes", test(doc(blockquote(p("a"), blockquote(p("b"))), p("c")), "> a\n>\n> > b\n\nc"))
+
+  it("writes code blocks", test(doc(pre("a\n```\nb"), p("c")), "````\na\n```\nb\n````\n\nc"))
+
+  it("writes code blocks with info strings", () => {
+    let s = new Schema({nodes: {doc: {content: "block+"}, text: {},
+                                code: {group: "block", code: true, content: "text*", attrs: {language: {default: ""}}}}})
+    ist(MarkdownSerializer.fromSchema(s).serialize(s.node("doc", null, [s.node("code", {language: "js"}, [s.text("x")])])),
+        "```js\nx\n```")
+  })
+
+  it("writes tight lists", test(doc(ul(li(p("a")), li(p("b"))), ol(li(p("c")))), "- a\n- b\n\n1. c"))
+
+  it("writes loose lists", test(doc(ul(li(p("a"), p("b")), li(p("c")))), "- a\n\n  b\n\n- c"))
+
+  it("writes nested lists", test(doc(ol({order: 9}, li(p("a"), ul(li(p("b")))), li(p("c")))),
+                                 "9.  a\n\n    - b\n\n10. c"))
+
+  it("alternates markers for adjacent lists", test(doc(ul(li(p("a"))), ul(li(p("b"))), ul(li(p("c")))),
+                                                   "- a\n\n* b\n\n- c"))
+
+  it("writes horizontal rules", test(doc(p("a"), hr(), p("b")), "a\n\n---\n\nb"))
+
+  it("nests marks", test(doc(p(em("a ", strong("b")), " ", strong("c"), " ", a(em("d")))), "*a **b*** **c** [*d*](foo)"))
+
+  it("moves whitespace out of marks", () => {
+    ist(serializer.serialize(doc(p("a", em(" b "), "c"), p(strong("d "), em("e")))), "a *b* c\n\n**d** *e*")
+  })
+
+  it("writes code spans", test(doc(p(code("a`b"), " ", strong(code("`")))), "``a`b`` **`` ` ``**"))
+
+  it("escapes special characters", test(doc(p("*a* [b] _c_ `d` a<b &amp;"), p("# f"), p("1. g")),
+                                        "\\*a\\* \\[b\\] \\_c\\_ \\`d\\` a\\<b \\&amp;\n\n\\# f\n\n1\\. g"))
+
+  it("escapes exclamation marks before links", test(doc(p("!", a({href: "x"}, "y"))), "\\![y](x)"))
+
+  it("encodes leading whitespace", test(doc(p("    x"), p(" ", em("y"), br(), " z")), "&#32;   x\n\n&#32;*y*\\\n&#32;z"))
+
+  it("keeps emphasis next to punctuation recognizable",
+     test(doc(p(strong('"a"'), "b"), p("c", em("(d)"))), '**"a"**&#98;\n\n&#99;*(d)*'))
+
+  it("escapes closing sequences in headings", test(doc(h1("a #"), h2("#")), "# a \\#\n\n## \\#"))
+
+  it("writes hard breaks", test(doc(p("a", br(), "b"), blockquote(p(em("c", br(), "d")))), "a\\\nb\n\n> *c\\\n> d*"))
+
+  it("writes links and images", test(doc(p(a({href: "x y", title: 'a "t"'}, "l"), img({alt: "i", src: "s.png"}))),
+                                     '[l](<x y> "a \\"t\\"")![i](s.png)'))
+
+  it("can use custom serializers", () => {
+    let custom = new MarkdownSerializer(Object.assign({}, serializer.nodes, {
+      heading: (state, node) => { state.write("=> "); state.renderInline(node); state.closeBlock(node) }
+    }), {em: {open: "_", close: "_"}})
+    ist(custom.serialize(doc(h1("a"), p(em("b"), strong("c")))), "=> a\n\n_b_c")
+  })
+})
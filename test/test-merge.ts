@@ -0,0 +1,94 @@
+import {doc, blockquote, h1, h2, p, em, strong, img, schema, eq} from "prosemirror-test-builder"
+import {Node, Schema} from "prosemirror-model"
+import ist from "ist"
+
+function limitedSchema(content: string) {
+  return new Schema({nodes: {doc: {content}, paragraph: {content: "text*"}, text: {}}})
+}
+
+let atMostTwo = limitedSchema("paragraph{1,2}"), atLeastThree = limitedSchema("paragraph{3,}")
+
+function ldoc(schema: Schema, ...paragraphs: string[]) {
+  return schema.node("doc", null, paragraphs.map(text => schema.node("paragraph", null, text ? schema.text(text) : null)))
+}
+
+describe("Node", () => {
+  describe("merge", () => {
+    function merge(base: Node, a: Node, b: Node, expected: Node, ...conflicts: string[]) {
+      let result = base.merge(a, b)
+      result.doc.check()
+      ist(result.doc, expected, eq)
+      ist(result.conflicts.map(c => `${c.from}-${c.to}`).join(", "), conflicts.join(", "))
+    }
+
+    it("takes the changed side", () =>
+       merge(doc(p("one")), doc(p("one")), doc(p("one"), p("two")),
+             doc(p("one"), p("two"))))
+
+    it("combines changes in different blocks", () =>
+       merge(doc(p("one"), p("two")), doc(p("one!"), p("two")), doc(p("one"), p("two?")),
+             doc(p("one!"), p("two?"))))
+
+    it("combines changes in the same textblock", () =>
+       merge(doc(p("hello world")), doc(p("hello brave world")), doc(p("hello world!")),
+             doc(p("hello brave world!"))))
+
+    it("combines inserted and changed blocks", () =>
+       merge(doc(p("a"), p("b")), doc(p("a"), p("x"), p("b")), doc(p("a"), p("bc")),
+             doc(p("a"), p("x"), p("bc"))))
+
+    it("merges changes inside nested nodes", () =>
+       merge(doc(blockquote(p("foo"), p("bar"))), doc(blockquote(p("fooo"), p("bar"))), doc(blockquote(p("foo"), p("baz"))),
+             doc(blockquote(p("fooo"), p("baz")))))
+
+    it("accepts identical changes", () =>
+       merge(doc(p("abc")), doc(p("abxc")), doc(p("abxc")),
+             doc(p("abxc"))))
+
+    it("combines mark and text changes", () =>
+       merge(doc(p("foo bar")), doc(p("foo ", strong("bar"))), doc(p("a foo bar")),
+             doc(p("a foo ", strong("bar")))))
+
+    it("combines attribute and content changes", () =>
+       merge(doc(h1("title")), doc(h2("title")), doc(h1("title!")),
+             doc(h2("title!"))))
+
+    it("reports conflicting text changes", () =>
+       merge(doc(p("one two")), doc(p("one 2")), doc(p("one deux")),
+             doc(p("one 2")), "5-6"))
+
+    it("reports conflicting attribute changes", () =>
+       merge(doc(p("x"), h1("title")), doc(p("x"), schema.node("heading", {level: 2}, schema.text("title"))),
+             doc(p("x"), schema.node("heading", {level: 3}, schema.text("title"))),
+             doc(p("x"), h2("title")), "3-10"))
+
+    it("reports conflicting mark changes", () =>
+       merge(doc(p("foo")), doc(p(em("foo"))), doc(p(strong("foo"))),
+             doc(p(em("foo"))), "1-4"))
+
+    it("describes conflicts", () => {
+      let {conflicts} = doc(p("cat")).merge(doc(p("cot")), doc(p("cut")))
+      ist(conflicts.length, 1)
+      ist(conflicts[0].base.toString(), '<"a">')
+      ist(conflicts[0].a.toString(), '<"o">')
+      ist(conflicts[0].b.toString(), '<"u">')
+    })
+
+    it("keeps the result valid for the schema", () =>
+       merge(ldoc(atMostTwo, "a"), ldoc(atMostTwo, "a", "b"), ldoc(atMostTwo, "c", "a"),
+             ldoc(atMostTwo, "a", "b"), "0-6"))
+
+    it("fills in required content", () =>
+       merge(ldoc(atLeastThree, "a", "m1", "b", "m2", "c"), ldoc(atLeastThree, "m1", "m2", "c"),
+             ldoc(atLeastThree, "a", "m1", "b", "m2"),
+             ldoc(atLeastThree, "m1", "m2", "")))
+
+    it("merges inline nodes", () =>
+       merge(doc(p("a", img(), "b")), doc(p("a", em(img()), "b")), doc(p("x", img(), "b")),
+             doc(p("x", em(img()), "b"))))
+
+    it("refuses to merge nodes of different types", () => {
+      ist.throws(() => doc(p("a")).merge(doc(p("a")), p("a")), /same type/)
+    })
+  })
+})
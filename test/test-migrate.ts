@@ -0,0 +1,79 @@
+import {Migrations, Schema, Node, Fragment} from "prosemirror-model"
+import {schema, eq, doc, p, h1, h2, em, strong, code} from "prosemirror-test-builder"
+import ist from "ist"
+
+describe("Migrations", () => {
+  // Version 1 called paragraphs "para", version 2 stored heading
+  // levels in a "depth" attribute, and version 3 had a "bold_em" mark
+  // that is now split into strong and em.
+  function registry() {
+    return new Migrations(schema, 4)
+      .register(2, {json: Migrations.renameNode("para", "paragraph")})
+      .register(3, {json: Migrations.renameAttr("heading", "depth", "level")})
+      .register(4, {json: Migrations.mapMarks(mark => mark.type == "bold_em" ? [{type: "em"}, {type: "strong"}] : mark)})
+  }
+
+  let v1 = {type: "doc", content: [
+    {type: "heading", attrs: {depth: 2}, content: [{type: "text", text: "Title"}]},
+    {type: "para", content: [{type: "text", text: "hi", marks: [{type: "bold_em"}]}]}
+  ]}
+
+  it("applies the migration chain", () => {
+    ist(registry().nodeFromJSON(v1, 1), doc(h2("Title"), p(em(strong("hi")))), eq)
+  })
+
+  it("only applies steps for newer versions", () => {
+    let v3 = {type: "doc", content: [{type: "paragraph", content: [{type: "text", text: "x", marks: [{type: "bold_em"}]}]}]}
+    ist(registry().nodeFromJSON(v3, 3), doc(p(em(strong("x")))), eq)
+  })
+
+  it("reads versioned documents", () => {
+    let migrations = registry(), d = doc(h1("a"), p("b"))
+    let json = migrations.toJSON(d)
+    ist(json.version, 4)
+    ist(migrations.nodeFromJSON(json), d, eq)
+    ist(migrations.nodeFromJSON({version: 1, doc: v1}), doc(h2("Title"), p(em(strong("hi")))), eq)
+  })
+
+  it("can run node transforms", () => {
+    let migrations = new Migrations(schema, 2).register(2, {node: (node: Node) => {
+      let content: Node[] = []
+      node.forEach(child => content.push(child.type.name != "code_block" ? child
+        : schema.node("paragraph", null, [schema.text(child.textContent, [schema.marks.code.create()])])))
+      return node.copy(Fragment.from(content))
+    }})
+    let old = {type: "doc", content: [{type: "code_block", content: [{type: "text", text: "x = 1"}]}]}
+    ist(migrations.nodeFromJSON(old, 1), doc(p(code("x = 1"))), eq)
+  })
+
+  it("can load documents in an older schema for node transforms", () => {
+    let oldSchema = new Schema({nodes: {doc: {content: "note+"}, note: {content: "text*"}, text: {}}})
+    let migrations = new Migrations(schema, 1).register(1, {
+      schema: oldSchema,
+      node: (node: Node) => {
+        let paragraphs: Node[] = []
+        node.forEach(note => paragraphs.push(schema.node("paragraph", null, note.content.size ? [schema.text(note.textContent)] : [])))
+        return schema.node("doc", null, paragraphs)
+      }
+    })
+    ist(migrations.nodeFromJSON({type: "doc", content: [{type: "note", content: [{type: "text", text: "a"}]}]}, 0),
+        doc(p("a")), eq)
+  })
+
+  it("can drop and unwrap nodes", () => {
+    let transform = Migrations.mapNodes(node => node.type == "comment" ? null : node.type == "section" ? node.content : node)
+    let json = transform({type: "doc", content: [
+      {type: "section", content: [{type: "paragraph"}, {type: "comment"}]},
+      {type: "paragraph", content: [{type: "text", text: "x"}]}
+    ]})
+    ist(schema.nodeFromJSON(json), doc(p(), p("x")), eq)
+  })
+
+  it("refuses documents that are too new", () => {
+    ist.throws(() => registry().nodeFromJSON(v1, 5), /newer than the current version/)
+  })
+
+  it("refuses duplicate steps", () => {
+    ist.throws(() => registry().register(3, {}), /already registered/)
+  })
+})
@@ -1,6 +1,6 @@
 import ist from "ist"
 import {Fragment, Schema, Node} from "prosemirror-model"
-import {schema, eq, doc, blockquote, p, li, ul, em, strong, code, a, br, hr, img} from "prosemirror-test-builder"
+import {schema, eq, doc, blockquote, p, li, ul, em, strong, code, a, br, hr, img, h1} from "prosemirror-test-builder"
 
 let customSchema = new Schema({
   nodes: {
@@ -16,6 +16,22 @@ let customSchema = new Schema({
   },
 })
 
+let validatingSchema = new Schema({
+  nodes: {
+    doc: {content: "block+"},
+    heading: {group: "block", content: "text*", attrs: {level: {default: 1, validate: "number"}}},
+    figure: {group: "block", attrs: {
+      src: {validate: "string"},
+      align: {default: null, validate: ["left", "right", null]},
+      width: {default: null, validate(value: any) { if (value != null && !(value > 0)) throw new Error("Width must be positive") }}
+    }},
+    text: {}
+  },
+  marks: {
+    link: {attrs: {href: {validate: "string"}, title: {default: null, validate: "string|null"}}}
+  }
+})
+
 describe("Node", () => {
   describe("toString", () => {
     it("nests", () => {
@@ -174,6 +190,164 @@ describe("Node", () => {
     it("can serialize nested nodes", () => roundTrip(doc(blockquote(ul(li(p("a"), p("b")), li(p(img()))), p("c")), p("d"))))
   })
 
+  describe("attribute validation", () => {
+    let v = validatingSchema
+
+    it("accepts valid attributes", () => {
+      v.node("doc", null, [
+        v.node("heading", {level: 2}, v.text("x", [v.mark("link", {href: "/a", title: null})])),
+        v.node("figure", {src: "x.png", align: "left", width: 10})
+      ]).check()
+    })
+
+    it("rejects values of the wrong type in createChecked", () => {
+      ist.throws(() => v.nodes.heading.createChecked({level: "banana"}), /attribute level on type heading/)
+    })
+
+    it("allows unchecked creation of invalid attributes", () => {
+      ist(v.nodes.heading.create({level: "banana"}).attrs.level, "banana")
+    })
+
+    it("rejects values not in an enumeration", () => {
+      ist.throws(() => v.nodes.figure.createChecked({src: "x.png", align: "middle"}), /"middle" for attribute align on type figure/)
+    })
+
+    it("runs custom validation functions", () => {
+      ist.throws(() => v.nodes.figure.createChecked({src: "x.png", width: -1}), /attribute width on type figure: Width must be positive/)
+    })
+
+    it("validates attributes in Node.check", () => {
+      let doc = v.node("doc", null, [v.nodes.heading.create({level: "2"})])
+      ist.throws(() => doc.check(), /attribute level on type heading/)
+    })
+
+    it("validates mark attributes in Node.check", () => {
+      let doc = v.node("doc", null, [v.node("heading", null, [v.text("x", [v.marks.link.create({href: 5})])])])
+      ist.throws(() => doc.check(), /attribute href on type link/)
+    })
+
+    it("validates attributes in Node.fromJSON", () => {
+      ist.throws(() => v.nodeFromJSON({type: "doc", content: [{type: "heading", attrs: {level: "banana"}}]}),
+                 /attribute level on type heading/)
+    })
+
+    it("validates attributes in Mark.fromJSON", () => {
+      ist.throws(() => v.markFromJSON({type: "link", attrs: {href: "/a", title: 1}}), /attribute title on type link/)
+    })
+  })
+
+  describe("validate", () => {
+    let n = schema.nodes
+
+    function issues(node: Node) {
+      return node.validate().map(i => `${i.kind} ${i.type.name} [${i.path}] @${i.pos}`).join(", ")
+    }
+
+    it("returns nothing for valid nodes", () =>
+       ist(doc(p("foo", em("bar")), blockquote(p("x"))).validate().length, 0))
+
+    it("reports all problems", () =>
+       ist(issues(n.doc.create(null, [
+         n.blockquote.create(),
+         p("a"),
+         n.code_block.create(null, schema.text("x", [schema.marks.em.create()])),
+         schema.text("stray")
+       ])), "content doc [] @-1, content blockquote [0] @0, marks text [2,0] @6"))
+
+    it("describes expected content", () => {
+      let [issue] = n.doc.create(null, [n.bullet_list.create(null, [p("x")])]).validate()
+      ist(issue.kind, "content")
+      ist(issue.type.name, "bullet_list")
+      ist(issue.index, 0)
+      ist(issue.expected!.map(t => t.name).join(), "list_item")
+      ist(/found paragraph where list_item was expected/.test(issue.message))
+    })
+
+    it("reports invalid attributes", () => {
+      let v = validatingSchema
+      let found = v.node("doc", null, [
+        v.nodes.heading.create({level: "x"}, v.text("a", [v.marks.link.create({href: 1})])),
+        v.nodes.figure.create({src: 2, width: -1})
+      ]).validate()
+      ist(found.map(i => `${i.kind} ${i.type.name} @${i.pos}`).join(", "),
+          "attrs heading @0, attrs text @1, attrs figure @3, attrs figure @3")
+    })
+
+    it("reports invalid mark sets", () =>
+       ist(issues(doc(p(schema.text("a", [schema.marks.code.create(), schema.marks.code.create()])))),
+           "marks text [0,0] @1"))
+  })
+
+  describe("repair", () => {
+    function repair(node: Node, expected: Node, ...changes: string[]) {
+      let result = node.repair()
+      result.node.check()
+      ist(result.node, expected, eq)
+      ist(result.changes.map(c => `${c.kind}@${c.pos}`).join(", "), changes.join(", "))
+    }
+
+    let n = schema.nodes
+
+    it("leaves valid nodes alone", () => {
+      let d = doc(p("foo"), blockquote(p("bar")))
+      ist(d.repair().node, d)
+    })
+
+    it("wraps stray inline content", () =>
+       repair(n.doc.create(null, [schema.text("foo"), schema.nodes.image.create({src: "x"}), p("bar")]),
+              doc(p("foo", img({src: "x"})), p("bar")), "wrap@0"))
+
+    it("fills in required content", () =>
+       repair(n.doc.create(null, [n.blockquote.create()]),
+              doc(blockquote(p())), "fill@1"))
+
+    it("inserts required nodes before misplaced ones", () =>
+       repair(doc(ul(n.list_item.create(null, [h1("x")]))),
+              doc(ul(li(p(), h1("x")))), "fill@2"))
+
+    it("removes disallowed marks", () =>
+       repair(n.doc.create(null, [n.code_block.create(null, [schema.text("x", [schema.marks.em.create()])])]),
+              doc(schema.node("code_block", null, [schema.text("x")])), "marks@1"))
+
+    it("unwraps nodes that don't fit", () =>
+       repair(n.doc.create(null, [n.paragraph.create(null, [schema.text("a"), p("b")])]),
+              doc(p("ab")), "unwrap@2"))
+
+    it("reports changes in unwrapped content once", () => {
+      let link = schema.marks.link
+      let text = schema.text("x", [link.create({href: "a"}), link.create({href: "b"})])
+      repair(n.doc.create(null, [n.paragraph.create(null, [n.blockquote.create(null, [n.paragraph.create(null, [text])])])]),
+             doc(p(a({href: "b"}, "x"))), "unwrap@1, unwrap@2, marks@3")
+    })
+
+    it("drops nodes that can't be placed", () =>
+       repair(n.doc.create(null, [n.paragraph.create(null, [schema.text("a"), n.horizontal_rule.create()])]),
+              doc(p("a")), "drop@2"))
+
+    it("defaults invalid attributes", () => {
+      let v = validatingSchema, result = v.node("doc", null, [v.nodes.heading.create({level: "2"}, v.text("x"))]).repair()
+      ist(result.node.firstChild!.attrs.level, 1)
+      ist(result.changes.length, 1)
+      ist(result.changes[0].kind, "attrs")
+      ist(/attribute level on type heading/.test(result.changes[0].message))
+    })
+
+    it("drops nodes with invalid required attributes", () => {
+      let v = validatingSchema
+      let result = v.node("doc", null, [v.nodes.figure.create({src: 5}), v.node("heading", null, v.text("x"))]).repair()
+      ist(result.node.childCount, 1)
+      ist(result.changes.map(c => `${c.kind}@${c.pos}`).join(), "drop@0")
+    })
+
+    it("repairs mark attributes", () => {
+      let v = validatingSchema
+      let link = v.marks.link.create({href: "/a", title: 5})
+      let result = v.node("doc", null, [v.node("heading", null, v.text("x", [link]))]).repair()
+      ist(result.node.firstChild!.firstChild!.marks[0].attrs.title, null)
+      ist(result.changes.map(c => c.kind).join(), "marks")
+    })
+  })
+
   describe("toString", () => {
     it("should have the default toString method [text]", () => ist(schema.text("hello").toString(), "\"hello\""))
     it("should have the default toString method [br]", () => ist(br().toString(), "hard_break"))
@@ -0,0 +1,81 @@
+import {doc, blockquote, h1, h2, p, em, strong, img, ul, li, a} from "prosemirror-test-builder"
+import {Node} from "prosemirror-model"
+import ist from "ist"
+
+describe("Node", () => {
+  describe("query", () => {
+    function query(node: Node, selector: string, ...expected: string[]) {
+      ist(node.query(selector).map(m => `${m.node.isText ? JSON.stringify(m.node.text) : m.node.type.name}@${m.pos}`).join(", "),
+          expected.join(", "))
+    }
+
+    let d = doc(h1("Title"), p("one ", strong("two")), blockquote(p("quoted"), h2("Sub")), p("x", img(), em("y")))
+
+    it("matches node types", () =>
+       query(d, "paragraph", "paragraph@7", "paragraph@17", "paragraph@31"))
+
+    it("matches groups", () =>
+       query(d, "blockquote ~ paragraph > inline", '"x"@32', "image@33", '"y"@34'))
+
+    it("matches attributes", () => {
+      query(d, "heading[level=2]", "heading@25")
+      query(d, "heading[level!=2]", "heading@0")
+      query(doc(p(img({src: "a.png"}), img({src: "b.jpg"}))), "image[src$=png]", "image@1")
+    })
+
+    it("matches marks", () => {
+      query(d, "text.strong", '"two"@12')
+      query(d, ".em", '"y"@34')
+    })
+
+    it("supports the child combinator", () =>
+       query(d, "blockquote > paragraph", "paragraph@17"))
+
+    it("supports the descendant combinator", () =>
+       query(doc(blockquote(ul(li(p("a")))), p("b")), "blockquote paragraph", "paragraph@3"))
+
+    it("supports sibling combinators", () => {
+      query(d, "heading + paragraph", "paragraph@7")
+      query(d, "heading ~ paragraph", "paragraph@7", "paragraph@31")
+    })
+
+    it("can match the queried node as an ancestor", () =>
+       query(d, "doc > heading", "heading@0"))
+
+    it("supports :has", () => {
+      query(d, "paragraph:has(image)", "paragraph@31")
+      query(doc(blockquote(p("a")), blockquote(blockquote(p("b")))), "blockquote:has(> paragraph)", "blockquote@0", "blockquote@6")
+    })
+
+    it("supports :not and structural pseudo-classes", () => {
+      query(d, "paragraph:not(:first-child)", "paragraph@7", "paragraph@31")
+      query(d, "blockquote > :last-child", "heading@25")
+      query(doc(p(), p("a")), "paragraph:empty", "paragraph@0")
+    })
+
+    it("supports selector groups", () =>
+       query(d, "heading, image", "heading@0", "heading@25", "image@33"))
+
+    it("matches marks with attributes", () =>
+       query(doc(p(a({href: "/x"}, "foo"), " ", a("bar"))), "text.link", '"foo"@1', '"bar"@5'))
+
+    it("raises an error for unknown names", () => {
+      ist.throws(() => d.query("banana"), /No node type or group 'banana'/)
+      ist.throws(() => d.query("text.banana"), /No mark type or group 'banana'/)
+      ist.throws(() => d.query("paragraph >"), SyntaxError)
+    })
+  })
+})
+
+describe("Fragment", () => {
+  describe("query", () => {
+    it("includes the fragment's own children", () => {
+      let found = doc(p("a"), p("b")).content.query("paragraph", 10)
+      ist(found.map(m => m.pos).join(), "10,13")
+    })
+
+    it("returns nothing for an empty fragment", () => {
+      ist(doc(p()).firstChild!.content.query("text").length, 0)
+    })
+  })
+})
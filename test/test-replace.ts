@@ -1,4 +1,4 @@
-import {Slice, Node} from "prosemirror-model"
+import {Slice, Node, ReplaceError} from "prosemirror-model"
 import {eq, doc, blockquote, h1, p, ul, li} from "prosemirror-test-builder"
 import ist from "ist"
 
@@ -120,4 +120,57 @@ describe("Node", () => {
            doc(blockquote("hi", "<a>"), "<b>"),
            "invalid content"))
   })
+
+  describe("diagnoseReplace", () => {
+    function diagnose(doc: Node, insert: Node | null) {
+      let slice = insert ? insert.slice((insert as any).tag.a, (insert as any).tag.b) : Slice.empty
+      return doc.diagnoseReplace((doc as any).tag.a, (doc as any).tag.b, slice)
+    }
+
+    it("returns null for a valid replacement", () =>
+       ist(diagnose(doc(p("on<a>e"), p("t<b>wo")), doc(p("xx<a>xx"), p("yy<b>yy"))), null))
+
+    it("describes content that doesn't fit", () => {
+      let error = diagnose(doc("<a><b>"), doc(p("<a>foo<b>")))!
+      ist(error instanceof ReplaceError)
+      ist(error.depth, 0)
+      ist(error.$pos!.pos, 0)
+      ist(error.index, 0)
+      ist(error.fragment!.toString(), '<"foo">')
+      ist(error.expected.some(t => t.name == "paragraph"))
+      ist(/found text where .*paragraph.* was expected/.test(error.message))
+    })
+
+    it("describes content that ends too early", () => {
+      let error = diagnose(doc(blockquote("<a>", p("hi"), "<b>")), null)!
+      ist(error.depth, 1)
+      ist(error.$pos!.pos, 1)
+      ist(error.index, 0)
+      ist(error.fragment!.size, 0)
+      ist(error.match, error.$pos!.parent.type.contentMatch)
+      ist(/depth 1 \(position 1\): content ended/.test(error.message))
+    })
+
+    it("describes join failures", () => {
+      let error = diagnose(doc(blockquote(p("a"), "<a>"), ul("<b>", li(p("b")))), null)!
+      ist(error.depth, 1)
+      ist(error.fragment!.toString(), "<list_item(paragraph(\"b\"))>")
+      ist(error.expected.length, 0)
+      ist(/cannot join bullet_list onto blockquote/i.test(error.message))
+    })
+
+    it("reports open depth problems", () =>
+       ist(/deeper/.test(diagnose(doc(p("<a><b>")), doc(blockquote(p("<a>")), "<b>"))!.message)))
+
+    it("is raised by replace", () => {
+      let d = doc(blockquote(p("hi")))
+      ist.throws(() => d.replace(1, 5, Slice.empty), (e: any) => e instanceof ReplaceError && e.depth == 1)
+    })
+
+    it("raises invalid content errors as range errors", () => {
+      let d = doc(blockquote(p("hi")))
+      ist.throws(() => d.replace(1, 5, Slice.empty),
+                 (e: any) => e instanceof RangeError && /^Invalid content for node blockquote/.test(e.message))
+    })
+  })
 })
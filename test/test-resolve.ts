@@ -1,4 +1,5 @@
-import {doc, p, em, blockquote} from "prosemirror-test-builder"
+import {doc, p, em, blockquote, hr, br} from "prosemirror-test-builder"
+import {TextUnit} from "prosemirror-model"
 import ist from "ist"
 
 const testDoc = doc(p("ab"), blockquote(p(em("cd"), "ef")))
@@ -63,3 +64,48 @@ describe("Node", () => {
     })
   })
 })
+
+describe("ResolvedPos.textBoundary", () => {
+  const d = doc(p("a\ud83d\udc4d\ud83c\udffde\u0301 b"), hr(), p("Hi ", em("there"), ". Bye now."), p("x", br(), "y"))
+
+  function moves(pos: number, unit: TextUnit, dir: number) {
+    let result = []
+    for (let $pos = d.resolve(pos);;) {
+      let next = $pos.textBoundary(unit, dir)
+      if (!next) return result.join(" ")
+      result.push(next.pos)
+      $pos = next
+    }
+  }
+
+  for (let fallback of [false, true]) describe(fallback ? "without Intl.Segmenter" : "with Intl.Segmenter", () => {
+    let Segmenter = (Intl as any).Segmenter
+    if (fallback) {
+      before(() => { delete (Intl as any).Segmenter })
+      after(() => { (Intl as any).Segmenter = Segmenter })
+    } else if (!Segmenter) {
+      return
+    }
+
+    it("moves by grapheme", () => {
+      ist(moves(1, "grapheme", 1), "2 6 8 9 10 13 14 15 16 17 18 19 20 21 22 23 24 25 26 27 28 29 30 31 33 34 35 36")
+      ist(moves(10, "grapheme", -1), "9 8 6 2 1")
+    })
+
+    it("moves by word", () => {
+      ist(moves(13, "word", 1), "15 21 26 30 31 33 34 36")
+      ist(moves(31, "word", -1), "27 23 16 13 10 9 6 1")
+    })
+
+    it("moves by sentence", () => {
+      ist(moves(13, "sentence", 1), "23 31 33 36")
+      ist(moves(31, "sentence", -1), "23 13 10 1")
+    })
+
+    it("moves into textblocks from outside", () => {
+      ist(d.resolve(11).textBoundary("grapheme", 1)!.pos, 13)
+      ist(d.resolve(11).textBoundary("grapheme", -1)!.pos, 10)
+      ist(d.resolve(0).textBoundary("word", -1), null)
+    })
+  })
+})
@@ -0,0 +1,287 @@
+import {Schema, Node, NodeAttrsOf, MarkAttrsOf, TypedNode} from "prosemirror-model"
+import {schema, doc, p, h1, em, a, img, ul, li} from "prosemirror-test-builder"
+import ist from "ist"
+
+function names(map: {[name: string]: any}) { return Object.keys(map).join(" ") }
+
+describe("Schema", () => {
+  describe("toJSON", () => {
+    it("can be converted to JSON and back", () => {
+      let loaded = Schema.fromJSON(JSON.parse(JSON.stringify(schema.toJSON())))
+      ist(names(loaded.nodes), names(schema.nodes))
+      ist(names(loaded.marks), names(schema.marks))
+      ist(loaded.nodes.list_item.spec.content, schema.nodes.list_item.spec.content)
+      ist(loaded.nodes.image.isInline)
+      ist(loaded.nodes.heading.groups.join(), "block")
+      ist(loaded.marks.link.spec.inclusive, false)
+      let d = doc(h1("x"), p("a", em("b"), a("c"), img()), ul(li(p("y"))))
+      ist(loaded.nodeFromJSON(d.toJSON()).toString(), d.toString())
+    })
+
+    it("leaves out functions and parse rules", () => {
+      let json = schema.toJSON()
+      ist(JSON.stringify(json.nodes.paragraph), '{"content":"inline*","group":"block"}')
+      ist(json.nodes.image.attrs.src.default, undefined)
+      ist(json.nodes.image.attrs.alt.default, null)
+    })
+
+    it("preserves attribute validation", () => {
+      let s = new Schema({
+        nodes: {doc: {content: "text*"}, text: {}},
+        marks: {color: {attrs: {value: {default: "red", validate: ["red", "blue"]}, n: {validate(v: any) { if (!v) throw new Error("no") }}}}}
+      })
+      let json = s.toJSON()
+      ist(JSON.stringify(json.marks.color.attrs), '{"value":{"default":"red","validate":["red","blue"]},"n":{}}')
+      ist.throws(() => Schema.fromJSON(json).markFromJSON({type: "color", attrs: {value: "green", n: 1}}),
+                 /Invalid value "green"/)
+    })
+
+    it("preserves undefined attribute defaults", () => {
+      let s = new Schema({nodes: {doc: {content: "text*", attrs: {id: {default: undefined}, n: {default: 1}}}, text: {}}})
+      let loaded = Schema.fromJSON(JSON.parse(JSON.stringify(s.toJSON())))
+      ist(loaded.nodes.doc.attrs.id.hasDefault)
+      ist(loaded.nodes.doc.attrs.id.default, undefined)
+      ist(loaded.nodes.doc.attrs.n.default, 1)
+      ist(loaded.nodes.doc.hasRequiredAttrs(), false)
+    })
+
+    it("stores the top node", () => {
+      let s = new Schema({topNode: "page", nodes: {page: {content: "text*"}, text: {}}})
+      ist(Schema.fromJSON(s.toJSON()).topNodeType.name, "page")
+    })
+
+    it("can re-attach functions with hooks", () => {
+      let toDOM = (node: Node) => ["p", {class: "loaded"}, 0] as any
+      let loaded = Schema.fromJSON(schema.toJSON(), {nodes: {paragraph: {toDOM}}, marks: {em: {spanning: false}}})
+      ist(loaded.nodes.paragraph.spec.toDOM, toDOM)
+      ist(loaded.nodes.paragraph.spec.content, "inline*")
+      ist(loaded.marks.em.spec.spanning, false)
+    })
+
+    it("rejects hooks for unknown types", () => {
+      ist.throws(() => Schema.fromJSON(schema.toJSON(), {nodes: {banana: {}}}), /unknown node type banana/)
+    })
+
+    it("rejects invalid input", () => {
+      ist.throws(() => Schema.fromJSON({marks: {}}), /Invalid input/)
+    })
+  })
+
+  describe("extend", () => {
+    it("adds node and mark types", () => {
+      let ext = schema.extend({
+        nodes: {note: {group: "block", content: "inline*"}},
+        marks: {underline: {}}
+      })
+      ist(names(ext.nodes), names(schema.nodes) + " note")
+      ist(names(ext.marks), names(schema.marks) + " underline")
+      ist(ext.nodes.note.groups.join(), "block")
+      ist(ext.nodes.doc.contentMatch.matchType(ext.nodes.note))
+    })
+
+    it("overrides types in place", () => {
+      let ext = schema.extend({marks: {em: {inclusive: false}}})
+      ist(names(ext.marks), names(schema.marks))
+      ist(ext.marks.em.spec.inclusive, false)
+      ist(ext.marks.em.rank, schema.marks.em.rank)
+    })
+
+    it("can place new types", () => {
+      let ext = schema.extend({
+        marks: {underline: {}, strike: {}},
+        order: {underline: {before: "em"}, strike: {after: "strong"}}
+      })
+      ist(names(ext.marks), "link underline em strong strike code")
+      ist(ext.marks.underline.create().addToSet([ext.marks.em.create()]).map(m => m.type.name).join(), "underline,em")
+      ist.throws(() => schema.extend({marks: {x: {}}, order: {x: {after: "y"}}}), /unknown type y/)
+    })
+
+    it("adds nodes to groups", () => {
+      let ext = schema.extend({
+        nodes: {aside: {content: "paragraph+"}},
+        groups: {aside: "block", code_block: "code"}
+      })
+      ist(ext.nodes.aside.groups.join(), "block")
+      ist(ext.nodes.code_block.groups.join(" "), "block code")
+      ist(ext.nodes.doc.contentMatch.matchType(ext.nodes.aside))
+    })
+
+    it("amends content expressions", () => {
+      let ext = schema.extend({
+        nodes: {caption: {content: "text*"}},
+        content: {list_item: "paragraph block*", image: () => "caption?", blockquote: c => c.replace("+", "*")}
+      })
+      ist(ext.nodes.image.spec.content, "caption?")
+      ist(ext.nodes.blockquote.spec.content, "block*")
+      ist(ext.nodes.list_item.spec.content, "paragraph block*")
+      ist.throws(() => schema.extend({content: {banana: "text*"}}), /unknown node type banana/)
+    })
+  })
+
+  describe("merge", () => {
+    let a = new Schema({
+      nodes: {doc: {content: "block+"}, paragraph: {group: "block", content: "text*"}, text: {}},
+      marks: {link: {}, em: {}, code: {}}
+    })
+    let b = new Schema({
+      nodes: {doc: {content: "para+"}, para: {content: "text*"}, paragraph: {group: "block", content: "text*", attrs: {x: {default: 1}}}, text: {}},
+      marks: {strong: {}, em: {inclusive: false}, strike: {}, code: {}}
+    })
+
+    it("keeps the order of each schema", () => {
+      let merged = Schema.merge(a, b)
+      ist(names(merged.nodes), "doc para paragraph text")
+      ist(names(merged.marks), "link strong em strike code")
+      ist(merged.topNodeType.spec.content, "para+")
+    })
+
+    it("lets later schemas override specs", () => {
+      let merged = Schema.merge(a, b)
+      ist(merged.nodes.paragraph.spec.attrs!.x.default, 1)
+      ist(merged.marks.em.spec.inclusive, false)
+      ist(Schema.merge(b, a).marks.em.spec.inclusive, undefined)
+    })
+  })
+
+  describe("declarations", () => {
+    let spec = {
+      nodes: {
+        doc: {content: "heading*"},
+        heading: {content: "text*", attrs: {level: {default: 1}, id: {validate: "string|null"}, align: {validate: ["left", "right"]}}},
+        text: {}
+      },
+      marks: {link: {attrs: {href: {validate: "string"}, "data-x": {default: false}}}}
+    } as const
+
+    it("derives attribute types from specs", () => {
+      let s = new Schema(spec)
+      let node = s.node("heading", {id: "a", align: "left"}) as TypedNode<NodeAttrsOf<typeof spec>["heading"]>
+      let level: number = node.attrs.level, id: string | null = node.attrs.id, align: "left" | "right" = node.attrs.align
+      let href: MarkAttrsOf<typeof spec>["link"]["href"] = s.marks.link.create({href: "x"}).attrs.href
+      ist([level, id, align, href].join(), "1,a,left,x")
+    })
+
+    it("generates declarations", () => {
+      ist(new Schema(spec).declarations({module: "pm"}), `import {Schema, TypedNode, TypedMark} from "pm"
+
+export interface DocNodeAttrs {}
+
+export interface HeadingNodeAttrs {
+  readonly level: number
+  readonly id: string | null
+  readonly align: "left" | "right"
+}
+
+export interface TextNodeAttrs {}
+
+export interface NodeAttrs {
+  doc: DocNodeAttrs
+  heading: HeadingNodeAttrs
+  text: TextNodeAttrs
+}
+
+export interface LinkMarkAttrs {
+  readonly href: string
+  readonly "data-x": boolean
+}
+
+export interface MarkAttrs {
+  link: LinkMarkAttrs
+}
+
+export type NodeName = keyof NodeAttrs
+export type MarkName = keyof MarkAttrs
+export type TypedSchema = Schema<NodeName, MarkName>
+export type NodeOf<N extends NodeName> = TypedNode<NodeAttrs[N]>
+export type MarkOf<M extends MarkName> = TypedMark<MarkAttrs[M]>
+`)
+    })
+
+    it("falls back to any for untyped attributes", () => {
+      let s = new Schema({nodes: {doc: {content: "code_block*"}, code_block: {attrs: {params: {}, info: {default: {}}}}, text: {}}})
+      ist(/interface CodeBlockNodeAttrs \{\n  readonly params: any\n  readonly info: any\n\}/.test(s.declarations()))
+      ist(/from "prosemirror-model"/.test(s.declarations()))
+    })
+  })
+
+  describe("compare", () => {
+    function make(nodes: {[name: string]: any}, marks: {[name: string]: any} = {}) {
+      return new Schema({nodes: Object.assign({doc: {content: "block+"}, text: {group: "inline"}}, nodes), marks})
+    }
+
+    function compare(a: Schema, b: Schema, ...expected: string[]) {
+      ist(a.compare(b).map(c => `${c.breaking ? "!" : ""}${c.kind} ${c.name}`).join(", "), expected.join(", "))
+    }
+
+    let base = make({paragraph: {group: "block", content: "inline*"}, quote: {group: "block", content: "block+"}},
+                    {em: {}, strong: {}})
+
+    it("finds no changes in identical schemas", () =>
+       compare(base, make({paragraph: {group: "block", content: "inline*"}, quote: {group: "block", content: "block+"}},
+                          {em: {}, strong: {}})))
+
+    it("reports added and removed types", () =>
+       compare(base, make({paragraph: {group: "block", content: "inline*"}, note: {group: "block", content: "inline*"}},
+                          {em: {}, code: {}}),
+               "!content doc", "!removed quote", "added note", "!removed strong", "added code"))
+
+    it("detects narrowed and widened content", () =>
+       compare(base, make({paragraph: {group: "block", content: "inline{0,5}"}, quote: {group: "block", content: "block*"}},
+                          {em: {}, strong: {}}),
+               "!content paragraph", "content quote"))
+
+    it("ignores content expressions that are written differently", () =>
+       compare(base, make({paragraph: {group: "block", content: "(text)*"}, quote: {group: "block", content: "block block*"}},
+                          {em: {}, strong: {}})))
+
+    it("detects attribute changes", () => {
+      let a = make({paragraph: {group: "block", content: "inline*", attrs: {align: {default: null}, id: {}}}, hr: {group: "block"}})
+      let b = make({paragraph: {group: "block", content: "inline*", attrs: {align: {default: "left"}, level: {}, dir: {default: "ltr"}}},
+                    hr: {group: "block"}})
+      let changes = a.compare(b)
+      ist(changes.map(c => `${c.breaking ? "!" : ""}${c.message}`).join("; "),
+          "Default value of attribute align changed; !Attribute id was removed; !Required attribute level was added; Attribute dir was added")
+    })
+
+    it("compares validation type names and values", () => {
+      let attrs = (id: any, level: any) => ({paragraph: {group: "block", content: "inline*", attrs: {id, level}}})
+      let notNull = (v: any) => { if (v == null) throw new Error("Null") }
+      compare(make(attrs({default: 1, validate: notNull}, {default: 1, validate: "number"})),
+              make(attrs({default: 1, validate: (v: any) => notNull(v)}, {default: 1, validate: "number"})))
+      compare(make(attrs({default: 1, validate: notNull}, {default: 1, validate: "number"})),
+              make(attrs({default: 1}, {default: 1, validate: "number|null"})), "attrs paragraph")
+      compare(make(attrs({default: 1, validate: "number|null"}, {default: 1, validate: ["a", "b"]})),
+              make(attrs({default: 1, validate: "number"}, {default: 1, validate: ["a", "b", "c"]})), "!attrs paragraph", "attrs paragraph")
+      compare(make(attrs({default: 1, validate: [1, null]}, {default: 1, validate: ["a"]})),
+              make(attrs({default: 1, validate: "number|null"}, {default: 1})), "attrs paragraph", "attrs paragraph")
+      compare(make(attrs({default: 1}, {default: 1, validate: "string"})),
+              make(attrs({default: 1, validate: "number"}, {default: 1, validate: ["a"]})), "!attrs paragraph", "!attrs paragraph")
+      let withFunction = make(attrs({default: 1, validate: notNull}, {default: 1}))
+      compare(withFunction, Schema.fromJSON(withFunction.toJSON()))
+    })
+
+    it("detects disallowed marks", () =>
+       compare(base, make({paragraph: {group: "block", content: "inline*", marks: "em"}, quote: {group: "block", content: "block+"}},
+                          {em: {}, strong: {}}),
+               "!marks paragraph"))
+
+    it("detects new mark exclusions", () =>
+       compare(base, make({paragraph: {group: "block", content: "inline*"}, quote: {group: "block", content: "block+"}},
+                          {em: {excludes: "_"}, strong: {}}),
+               "!excludes em"))
+  })
+
+  describe("checkDocuments", () => {
+    it("reports documents that don't fit a schema", () => {
+      let narrow = new Schema({nodes: {doc: {content: "paragraph+"}, paragraph: {content: "text*"}, text: {}}})
+      let problems = narrow.checkDocuments([
+        doc(p("ok")).toJSON(),
+        doc(h1("title")).toJSON(),
+        doc(p(em("x"))).toJSON(),
+        doc().toJSON()
+      ])
+      ist(problems.map(p => `${p.index}:${p.error ? "error" : p.issues.map(i => i.kind).join()}`).join(" "),
+          "1:error 2:error 3:content")
+    })
+  })
+})
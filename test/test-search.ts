@@ -0,0 +1,72 @@
+import {doc, p, h1, blockquote, pre, em, strong, br, img, schema} from "prosemirror-test-builder"
+import {Node} from "prosemirror-model"
+import ist from "ist"
+
+function ranges(node: Node, query: string | RegExp, options = {}) {
+  return node.search(query, options).map(m => m.from + "-" + m.to).join(" ")
+}
+
+describe("Node.search", () => {
+  it("finds plain strings", () => {
+    let d = doc(p("one two one"), p("none"))
+    ist(ranges(d, "one"), "1-4 9-12 15-18")
+    ist(d.search("two")[0].text, "two")
+    ist(ranges(d, ""), "")
+  })
+
+  it("finds matches across marks", () => {
+    let d = doc(p("foo ", em("ba", strong("r")), "baz"))
+    ist(ranges(d, "o barb"), "3-9")
+  })
+
+  it("doesn't match across blocks or leaf nodes", () => {
+    let d = doc(p("ab"), p("cd", br(), "ef", img()))
+    ist(ranges(d, "bc"), "")
+    ist(ranges(d, "de"), "")
+    ist(ranges(d, /d.e/), "6-9")
+  })
+
+  it("supports regular expressions", () => {
+    let d = doc(p("a1 b22 c333"))
+    let matches = d.search(/([a-z])(\d+)/)
+    ist(matches.map(m => m.from + "-" + m.to).join(" "), "1-3 4-7 8-12")
+    ist(matches[2].groups.join(), "c,333")
+    ist(ranges(d, /x*/), "")
+  })
+
+  it("can ignore case", () => {
+    let d = doc(p("Foo fOO"))
+    ist(ranges(d, "foo"), "")
+    ist(ranges(d, "foo", {ignoreCase: true}), "1-4 5-8")
+    ist(ranges(d, /FO+/, {ignoreCase: true}), "1-4 5-8")
+  })
+
+  it("can match whole words", () => {
+    let d = doc(p("cat cats scat cat. écat"))
+    ist(ranges(d, "cat", {wholeWord: true}), "1-4 15-18")
+  })
+
+  it("can search a range", () => {
+    let d = doc(p("aaa"), p("aaa"))
+    ist(ranges(d, "a", {from: 2, to: 7}), "2-3 3-4 6-7")
+    ist(ranges(d, "aa", {from: 2, to: 7}), "2-4")
+    ist.throws(() => d.search("a", {from: 4, to: 2}), RangeError)
+  })
+
+  it("can be limited to nodes of a given type", () => {
+    let d = doc(h1("xa"), blockquote(p("xb"), h1("xc")), p("xd"))
+    ist(ranges(d, /x./, {within: "heading"}), "1-3 10-12")
+    ist(ranges(d, /x./, {within: [schema.nodes.blockquote, "heading"]}), "1-3 6-8 10-12")
+    ist.throws(() => d.search("x", {within: "foo"}), RangeError)
+  })
+
+  it("can skip code", () => {
+    let d = doc(p("let x"), pre("let y"))
+    ist(ranges(d, "let"), "1-4 8-11")
+    ist(ranges(d, "let", {skipCode: true}), "1-4")
+  })
+
+  it("searches inside textblocks", () => {
+    ist(ranges(p("a", em("b"), "ab"), "ab"), "0-2 2-4")
+  })
+})
@@ -0,0 +1,114 @@
+import {doc, p, h1, blockquote, ul, ol, li, em, br, img, hr} from "prosemirror-test-builder"
+import {Node, TextIndex} from "prosemirror-model"
+import ist from "ist"
+
+// Check that every character that comes from a text node maps to the
+// position of that character.
+function checkPositions(node: Node, text: string, positions: readonly number[]) {
+  ist(positions.length, text.length + 1)
+  for (let i = 0; i < text.length; i++) {
+    let pos = positions[i], $pos = node.resolve(pos), after = $pos.nodeAfter
+    if (after && after.isText && text.charAt(i) == after.text!.charAt(0) && text.charAt(i) != " ")
+      ist(node.textBetween(pos, pos + 1), text.charAt(i))
+  }
+}
+
+describe("Node.exportText", () => {
+  it("separates blocks", () => {
+    let d = doc(h1("Title"), p("one ", em("two")), blockquote(p("three")))
+    let {text, positions} = d.exportText()
+    ist(text, "Title\none two\nthree")
+    ist(positions.join(" "), "1 2 3 4 5 8 8 9 10 11 12 13 14 18 18 19 20 21 22 25")
+    checkPositions(d, text, positions)
+  })
+
+  it("supports per-type separators", () => {
+    let d = doc(h1("a"), p("b"), p("c"))
+    ist(d.exportText({separators: {heading: "\n\n"}, blockSeparator: " | "}).text, "a\n\nb | c")
+  })
+
+  it("writes list markers", () => {
+    let d = doc(ul(li(p("a"), p("b")), li(p("c"), ol({order: 9}, li(p("d")), li(p("e"))))))
+    let result = d.exportText()
+    ist(result.text, "• a\n  b\n• c\n  9. d\n  10. e")
+    checkPositions(d, result.text, result.positions)
+    ist(result.posAt(0), 3)
+    ist(d.exportText({listMarkers: {}}).text, "a\nb\nc\nd\ne")
+  })
+
+  it("uses leaf text", () => {
+    let d = doc(p("a", br(), "b", img()), hr())
+    ist(d.exportText().text, "ab\n")
+    let result = d.exportText({leafText: node => node.type.name == "hard_break" ? "\n" : "[" + node.type.name + "]"})
+    ist(result.text, "a\nb[image]\n[horizontal_rule]")
+    ist(result.posAt(1), 2)
+    ist(result.posAt(4), 4)
+    ist(result.posAt(result.text.length), d.content.size)
+  })
+
+  it("wraps lines", () => {
+    let d = doc(p("the quick brown fox jumps"), ul(li(p("over the lazy dog"))), p("supercalifragilistic x"))
+    let result = d.exportText({wrap: 10})
+    ist(result.text, "the quick\nbrown fox\njumps\n• over the\n  lazy dog\nsupercalifragilistic\nx")
+    checkPositions(d, result.text, result.positions)
+    ist(result.positions[9], 10)
+  })
+
+  it("exports the content of non-document nodes", () => {
+    let result = p("ab", em("c")).exportText()
+    ist(result.text, "abc")
+    ist(result.positions.join(" "), "0 1 2 3")
+  })
+})
+
+describe("TextIndex", () => {
+  let d = doc(h1("Title"), p("a", br(), "b", img()), ul(li(p("x"), p("yz"))), hr(), p())
+
+  it("indexes the same text as textBetween", () => {
+    ist(new TextIndex(d).text, d.textBetween(0, d.content.size))
+    ist(new TextIndex(d, "\n").text, d.textBetween(0, d.content.size, "\n"))
+    let leaf = (node: Node) => "<" + node.type.name + ">"
+    ist(new TextIndex(d, "\n\n", leaf).text, d.textBetween(0, d.content.size, "\n\n", leaf))
+  })
+
+  it("maps text offsets to positions", () => {
+    let index = new TextIndex(d, "\n", "*")
+    ist(index.text, "Title\na*b*\nx\nyz*\n")
+    let text = index.text
+    for (let i = 0; i < text.length; i++) {
+      let pos = index.textOffsetToPos(i)
+      if (/\w/.test(text.charAt(i))) ist(d.textBetween(pos, pos + 1), text.charAt(i))
+      else if (text.charAt(i) == "*") ist(d.nodeAt(pos)!.isLeaf)
+    }
+    ist(index.textOffsetToPos(text.length), d.content.size - 2)
+    ist(index.textOffsetToPos(15), 24)
+    ist(index.textOffsetToPos(6), 8)
+    ist(index.textOffsetToPos(6, -1), 7)
+    ist(index.textOffsetToPos(5), 7)
+    ist(index.textOffsetToPos(5, -1), 6)
+  })
+
+  it("maps positions to text offsets", () => {
+    let index = new TextIndex(d, "\n", "*")
+    for (let i = 0; i < index.text.length; i++) {
+      let pos = index.textOffsetToPos(i)
+      if (/\w/.test(index.text.charAt(i))) ist(index.posToTextOffset(pos), i)
+    }
+    ist(index.posToTextOffset(0), 0)
+    ist(index.posToTextOffset(6), 5)
+    ist(index.posToTextOffset(7), 5)
+    ist(index.posToTextOffset(7, -1), 5)
+    ist(index.posToTextOffset(9), 7)
+    ist(index.posToTextOffset(22), 15)
+    ist(index.posToTextOffset(21, -1), 15)
+    ist(index.posToTextOffset(d.content.size), index.text.length)
+  })
+
+  it("handles nodes without text", () => {
+    let index = new TextIndex(doc(p(), p()))
+    ist(index.text, "")
+    ist(index.textOffsetToPos(0), 0)
+    ist(index.posToTextOffset(3), 0)
+    ist.throws(() => index.textOffsetToPos(1), RangeError)
+  })
+})